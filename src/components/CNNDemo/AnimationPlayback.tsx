@@ -0,0 +1,98 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+
+// Playback and the sliding window shared by the convolution and pooling animations
+
+// Grid cells are w-6 (24px) with a 1px gap; the grid sits under a heading
+const CELL_SIZE = 24;
+const CELL_GAP = 1;
+const HEADING_HEIGHT = 28;
+
+export interface Playback {
+  step: number;
+  setStep: React.Dispatch<React.SetStateAction<number>>;
+  isPlaying: boolean;
+  setIsPlaying: React.Dispatch<React.SetStateAction<boolean>>;
+  speed: number; // ms per step
+  setSpeed: React.Dispatch<React.SetStateAction<number>>;
+}
+
+// Steps 0 .. totalSteps - 1 while playing, then stops on the last one
+export function usePlayback(totalSteps: number): Playback {
+  const [step, setStep] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(500);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = window.setInterval(() => {
+      setStep(prev => {
+        if (prev >= totalSteps - 1) {
+          setIsPlaying(false);
+          return prev;
+        }
+        return prev + 1;
+      });
+    }, speed);
+    return () => window.clearInterval(timer);
+  }, [isPlaying, totalSteps, speed]);
+
+  return { step, setStep, isPlaying, setIsPlaying, speed, setSpeed };
+}
+
+interface PlaybackControlsProps {
+  playback: Playback;
+  disabled?: boolean;
+}
+
+export const PlaybackControls: React.FC<PlaybackControlsProps> = ({ playback, disabled }) => {
+  const { isPlaying, setIsPlaying, setStep, speed, setSpeed } = playback;
+  return (
+    <div className="flex gap-2">
+        <button
+            onClick={() => setIsPlaying(!isPlaying)}
+            disabled={disabled}
+            className={`px-3 py-1 rounded text-sm font-bold text-white ${isPlaying ? 'bg-yellow-500' : 'bg-green-500'}`}
+        >
+            {isPlaying ? '暂停 (Pause)' : '播放 (Play)'}
+        </button>
+        <button
+            onClick={() => setStep(0)}
+            className="px-3 py-1 rounded text-sm bg-gray-500 text-white"
+        >
+            重置 (Reset)
+        </button>
+        <select
+            value={speed}
+            onChange={(e) => setSpeed(Number(e.target.value))}
+            className="text-sm border rounded px-2"
+        >
+            <option value={1000}>慢速</option>
+            <option value={500}>中速</option>
+            <option value={100}>快速</option>
+        </select>
+    </div>
+  );
+};
+
+interface SlidingWindowProps {
+  row: number; // Top-left grid cell under the window
+  col: number;
+  height: number; // In grid cells
+  width: number;
+}
+
+// Highlight over the input grid; place it in the grid's relative container
+export const SlidingWindow: React.FC<SlidingWindowProps> = ({ row, col, height, width }) => (
+  <motion.div
+      className="absolute border-2 border-blue-500 pointer-events-none shadow-lg bg-blue-500/10"
+      layout
+      style={{
+          width: width * CELL_SIZE + (width - 1) * CELL_GAP,
+          height: height * CELL_SIZE + (height - 1) * CELL_GAP,
+          top: HEADING_HEIGHT + row * (CELL_SIZE + CELL_GAP),
+          left: col * (CELL_SIZE + CELL_GAP)
+      }}
+      transition={{ type: "spring", stiffness: 300, damping: 30 }}
+  />
+);
@@ -0,0 +1,281 @@
+import React, { useMemo, useState } from 'react';
+import {
+  ArchitectureSpec,
+  LayerKind,
+  LayerSpec,
+  analyzeArchitecture,
+  describeLayer,
+} from '../../utils/cnn-architecture';
+
+interface ArchitectureEditorProps {
+  architecture: ArchitectureSpec;
+  numClasses: number; // The output layer must produce one score per class
+  disabled?: boolean;
+  onApply: (architecture: ArchitectureSpec) => void;
+  onClose: () => void;
+}
+
+const KIND_OPTIONS: { kind: LayerKind; label: string; prefix: string }[] = [
+  { kind: 'conv2d', label: 'Conv2D 卷积', prefix: 'conv' },
+  { kind: 'maxPooling2d', label: 'MaxPooling 最大池化', prefix: 'pool' },
+  { kind: 'averagePooling2d', label: 'AveragePooling 平均池化', prefix: 'avgpool' },
+  { kind: 'dropout', label: 'Dropout 随机丢弃', prefix: 'dropout' },
+  { kind: 'batchNormalization', label: 'BatchNorm 批归一化', prefix: 'bn' },
+  { kind: 'flatten', label: 'Flatten 扁平化', prefix: 'flatten' },
+  { kind: 'dense', label: 'Dense 全连接', prefix: 'dense' },
+];
+
+function uniqueName(prefix: string, layers: LayerSpec[]) {
+  const taken = new Set(layers.map(l => l.name));
+  let n = 1;
+  while (taken.has(`${prefix}${n}`)) n++;
+  return `${prefix}${n}`;
+}
+
+function createLayer(kind: LayerKind, layers: LayerSpec[]): LayerSpec {
+  const prefix = KIND_OPTIONS.find(o => o.kind === kind)!.prefix;
+  const name = uniqueName(prefix, layers);
+  switch (kind) {
+    case 'conv2d':
+      return { kind, name, filters: 8, kernelSize: 3, strides: 1, padding: 'same', activation: 'relu' };
+    case 'maxPooling2d':
+    case 'averagePooling2d':
+      return { kind, name, poolSize: 2, strides: 2, padding: 'valid' };
+    case 'dropout':
+      return { kind, name, rate: 0.25 };
+    case 'batchNormalization':
+      return { kind, name };
+    case 'flatten':
+      return { kind, name };
+    case 'dense':
+      return { kind, name, units: 32, activation: 'relu' };
+  }
+}
+
+const NumberField: React.FC<{
+  label: string;
+  value: number;
+  min: number;
+  max?: number;
+  step?: number;
+  disabled?: boolean;
+  onChange: (value: number) => void;
+}> = ({ label, value, min, max, step = 1, disabled, onChange }) => (
+  <label className="flex items-center gap-1">
+    <span className="text-gray-500">{label}</span>
+    <input
+      type="number"
+      value={value}
+      min={min}
+      max={max}
+      step={step}
+      disabled={disabled}
+      onChange={(e) => {
+        const v = Number(e.target.value);
+        if (!Number.isNaN(v)) onChange(v);
+      }}
+      className="w-14 border rounded px-1 py-0.5"
+    />
+  </label>
+);
+
+export const ArchitectureEditor: React.FC<ArchitectureEditorProps> = ({
+  architecture,
+  numClasses,
+  disabled,
+  onApply,
+  onClose
+}) => {
+  const [draft, setDraft] = useState<LayerSpec[]>(architecture.layers);
+  const [newKind, setNewKind] = useState<LayerKind>('conv2d');
+
+  const draftSpec: ArchitectureSpec = useMemo(() => ({ ...architecture, layers: draft }), [architecture, draft]);
+  const analysis = useMemo(() => analyzeArchitecture(draftSpec, numClasses), [draftSpec, numClasses]);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(architecture.layers);
+
+  const updateLayer = (index: number, patch: Partial<LayerSpec>) => {
+    setDraft(prev => prev.map((l, i) => (i === index ? { ...l, ...patch } as LayerSpec : l)));
+  };
+
+  const insertLayer = (index: number) => {
+    setDraft(prev => [...prev.slice(0, index), createLayer(newKind, prev), ...prev.slice(index)]);
+  };
+
+  const removeLayer = (index: number) => {
+    setDraft(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const moveLayer = (index: number, delta: number) => {
+    setDraft(prev => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const renderFields = (layer: LayerSpec, index: number) => {
+    switch (layer.kind) {
+      case 'conv2d':
+        return (
+          <>
+            <NumberField label="滤波器" value={layer.filters} min={1} max={128} disabled={disabled}
+              onChange={v => updateLayer(index, { filters: v })} />
+            <NumberField label="核" value={layer.kernelSize} min={1} max={11} disabled={disabled}
+              onChange={v => updateLayer(index, { kernelSize: v })} />
+            <NumberField label="步长" value={layer.strides} min={1} max={4} disabled={disabled}
+              onChange={v => updateLayer(index, { strides: v })} />
+            <select value={layer.padding} disabled={disabled} className="border rounded px-1 py-0.5"
+              onChange={e => updateLayer(index, { padding: e.target.value as 'valid' | 'same' })}>
+              <option value="valid">valid</option>
+              <option value="same">same</option>
+            </select>
+            <select value={layer.activation} disabled={disabled} className="border rounded px-1 py-0.5"
+              onChange={e => updateLayer(index, { activation: e.target.value as typeof layer.activation })}>
+              <option value="relu">relu</option>
+              <option value="sigmoid">sigmoid</option>
+              <option value="tanh">tanh</option>
+              <option value="linear">linear</option>
+            </select>
+          </>
+        );
+      case 'maxPooling2d':
+      case 'averagePooling2d':
+        return (
+          <>
+            <NumberField label="窗口" value={layer.poolSize} min={1} max={8} disabled={disabled}
+              onChange={v => updateLayer(index, { poolSize: v })} />
+            <NumberField label="步长" value={layer.strides} min={1} max={8} disabled={disabled}
+              onChange={v => updateLayer(index, { strides: v })} />
+          </>
+        );
+      case 'dropout':
+        return (
+          <NumberField label="丢弃率" value={layer.rate} min={0} max={0.9} step={0.05} disabled={disabled}
+            onChange={v => updateLayer(index, { rate: v })} />
+        );
+      case 'dense':
+        return (
+          <>
+            <NumberField label="神经元" value={layer.units} min={1} max={512} disabled={disabled}
+              onChange={v => updateLayer(index, { units: v })} />
+            <select value={layer.activation} disabled={disabled} className="border rounded px-1 py-0.5"
+              onChange={e => updateLayer(index, { activation: e.target.value as typeof layer.activation })}>
+              <option value="relu">relu</option>
+              <option value="sigmoid">sigmoid</option>
+              <option value="tanh">tanh</option>
+              <option value="linear">linear</option>
+              <option value="softmax">softmax</option>
+            </select>
+          </>
+        );
+      default:
+        return null;
+    }
+  };
+
+  const renderInsertButton = (index: number) => (
+    <button
+      onClick={() => insertLayer(index)}
+      disabled={disabled}
+      className="w-full text-xs text-blue-500 hover:text-blue-700 hover:bg-blue-50 rounded py-0.5 disabled:opacity-40"
+      title="在此处插入新层"
+    >
+      + 插入 (Insert)
+    </button>
+  );
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-md flex flex-col h-full">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-bold text-gray-800">网络结构编辑器 (Editor)</h3>
+        <button onClick={onClose} className="text-sm text-gray-500 hover:text-gray-700">
+          返回结构图 ✕
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2 mb-3 text-sm">
+        <span className="text-gray-600">新层类型：</span>
+        <select
+          value={newKind}
+          onChange={e => setNewKind(e.target.value as LayerKind)}
+          className="border rounded px-2 py-1 flex-1"
+        >
+          {KIND_OPTIONS.map(o => (
+            <option key={o.kind} value={o.kind}>{o.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-1 pr-1">
+        <div className="p-2 rounded border border-gray-200 bg-gray-50 text-xs flex justify-between">
+          <span className="font-bold text-gray-700">Input 输入层</span>
+          <span className="text-gray-500">[{architecture.inputShape.join(', ')}]</span>
+        </div>
+        {renderInsertButton(0)}
+
+        {draft.map((layer, index) => {
+          const info = analysis.layers[index];
+          const { type, desc } = describeLayer(layer);
+          return (
+            <React.Fragment key={layer.name}>
+              <div className={`p-2 rounded border text-xs ${info?.error ? 'border-red-400 bg-red-50' : 'border-gray-200'}`}>
+                <div className="flex justify-between items-center">
+                  <span className="font-bold text-gray-700">
+                    {type} {desc} <span className="font-normal text-gray-400">({layer.name})</span>
+                  </span>
+                  <div className="flex gap-1">
+                    <button onClick={() => moveLayer(index, -1)} disabled={disabled || index === 0}
+                      className="px-1 text-gray-500 hover:text-gray-800 disabled:opacity-30" title="上移">↑</button>
+                    <button onClick={() => moveLayer(index, 1)} disabled={disabled || index === draft.length - 1}
+                      className="px-1 text-gray-500 hover:text-gray-800 disabled:opacity-30" title="下移">↓</button>
+                    <button onClick={() => removeLayer(index)} disabled={disabled || draft.length === 1}
+                      className="px-1 text-red-500 hover:text-red-700 disabled:opacity-30" title="删除">✕</button>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-2 mt-1">
+                  {renderFields(layer, index)}
+                </div>
+                <div className="flex justify-between mt-1 text-gray-500">
+                  <span>输出形状：{info?.outputShape ? `[${info.outputShape.join(', ')}]` : '—'}</span>
+                  <span>参数：{info ? info.params.toLocaleString() : 0}</span>
+                </div>
+                {info?.error && <div className="text-red-600 mt-1">⚠ {info.error}</div>}
+              </div>
+              {renderInsertButton(index + 1)}
+            </React.Fragment>
+          );
+        })}
+      </div>
+
+      <div className="mt-3 border-t pt-3 text-xs">
+        <div className="flex justify-between text-gray-600 mb-2">
+          <span>总参数量 (Total Params)</span>
+          <span className="font-bold">{analysis.totalParams.toLocaleString()}</span>
+        </div>
+        {analysis.errors.length > 0 && (
+          <ul className="text-red-600 mb-2 list-disc pl-4 space-y-0.5">
+            {analysis.errors.map(err => <li key={err}>{err}</li>)}
+          </ul>
+        )}
+        <div className="flex gap-2">
+          <button
+            onClick={() => setDraft(architecture.layers)}
+            disabled={disabled || !isDirty}
+            className="px-3 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 font-bold disabled:opacity-50"
+          >
+            撤销修改
+          </button>
+          <button
+            onClick={() => onApply(draftSpec)}
+            disabled={disabled || !isDirty || !analysis.isValid}
+            className="flex-1 px-3 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 font-bold disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            应用并重建模型 (Apply)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import {
+  AugmentationConfig,
+  NO_AUGMENTATION,
+  RECOMMENDED_AUGMENTATION,
+  augmentImage,
+  isAugmentationEnabled,
+} from '../../utils/augmentation';
+import { imageDataToPixels, pixelsToDataUrl } from '../../utils/cnn-model';
+import { DatasetSource } from '../../utils/dataset-source';
+
+interface AugmentationPanelProps {
+  config: AugmentationConfig;
+  onChange: (config: AugmentationConfig) => void;
+  disabled?: boolean;
+  data: DatasetSource;
+  sourceImage: ImageData | null; // The user's drawing, already preprocessed
+}
+
+const SLIDERS: {
+  key: keyof AugmentationConfig;
+  label: string;
+  max: number;
+  step: number;
+  format: (v: number) => string;
+}[] = [
+  { key: 'rotation', label: '旋转 (Rotation)', max: 45, step: 1, format: v => `±${v}°` },
+  { key: 'translation', label: '平移 (Shift)', max: 0.3, step: 0.01, format: v => `±${Math.round(v * 100)}%` },
+  { key: 'scale', label: '缩放 (Scale)', max: 0.3, step: 0.01, format: v => `±${Math.round(v * 100)}%` },
+  { key: 'elastic', label: '弹性形变 (Elastic)', max: 4, step: 0.1, format: v => `${v.toFixed(1)} px` },
+  { key: 'thickening', label: '笔画加粗 (Thicken)', max: 1, step: 0.05, format: v => `${Math.round(v * 100)}% 概率` },
+  { key: 'noise', label: '噪声 (Noise)', max: 0.3, step: 0.01, format: v => `σ=${v.toFixed(2)}` },
+];
+
+const PREVIEW_COUNT = 11;
+
+function toDataUrl(image: Float32Array, shape: [number, number, number]) {
+  return pixelsToDataUrl(Uint8Array.from(image, v => Math.round(v * 255)), shape);
+}
+
+// The image to preview: the user's own drawing when there is one, otherwise
+// a random training image.
+function getPreviewSource(data: DatasetSource, sourceImage: ImageData | null): Float32Array {
+  const [, , channels] = data.info.imageShape;
+  if (sourceImage) {
+    return Float32Array.from(imageDataToPixels(sourceImage, channels), v => v / 255);
+  }
+  const batch = data.nextTrainBatch(1);
+  const image = batch.xs.dataSync() as Float32Array;
+  batch.xs.dispose();
+  batch.labels.dispose();
+  return image;
+}
+
+export const AugmentationPanel: React.FC<AugmentationPanelProps> = ({
+  config,
+  onChange,
+  disabled,
+  data,
+  sourceImage
+}) => {
+  const [previews, setPreviews] = useState<string[]>([]);
+  const [seed, setSeed] = useState(0); // Bumped by "换一批" to redraw the samples
+  const enabled = isAugmentationEnabled(config);
+  const shape = data.info.imageShape;
+
+  useEffect(() => {
+    const source = getPreviewSource(data, sourceImage);
+    const augmented = Array.from({ length: PREVIEW_COUNT }, () => augmentImage(source, shape, config));
+    setPreviews([source, ...augmented].map(image => toDataUrl(image, shape)));
+  }, [data, sourceImage, config, seed]);
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-md mt-4">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-bold text-gray-800">数据增强 (Augmentation)</h3>
+        <span className={`text-xs px-2 py-0.5 rounded-full ${enabled ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-500'}`}>
+          {enabled ? '已开启' : '未开启'}
+        </span>
+      </div>
+
+      <div className="space-y-1 text-xs">
+        {SLIDERS.map(({ key, label, max, step, format }) => (
+          <label key={key} className="flex items-center gap-2">
+            <span className="w-28 shrink-0 text-gray-600">{label}</span>
+            <input
+              type="range"
+              min={0}
+              max={max}
+              step={step}
+              value={config[key]}
+              disabled={disabled}
+              onChange={(e) => onChange({ ...config, [key]: Number(e.target.value) })}
+              className="flex-1"
+            />
+            <span className="w-16 text-right text-gray-500">{format(config[key])}</span>
+          </label>
+        ))}
+      </div>
+
+      <div className="flex gap-2 mt-2 text-xs">
+        <button
+          onClick={() => onChange(RECOMMENDED_AUGMENTATION)}
+          disabled={disabled}
+          className="px-2 py-1 bg-green-100 text-green-700 rounded hover:bg-green-200 disabled:opacity-50"
+        >
+          推荐设置
+        </button>
+        <button
+          onClick={() => onChange(NO_AUGMENTATION)}
+          disabled={disabled}
+          className="px-2 py-1 bg-gray-100 text-gray-600 rounded hover:bg-gray-200 disabled:opacity-50"
+        >
+          全部关闭
+        </button>
+        <button
+          onClick={() => setSeed(s => s + 1)}
+          className="ml-auto px-2 py-1 bg-blue-100 text-blue-600 rounded hover:bg-blue-200"
+        >
+          换一批
+        </button>
+      </div>
+
+      <p className="text-xs text-gray-500 mt-3 mb-1">
+        {sourceImage ? '你的图片' : '训练图片'}（左上角为原图）经过增强后的样子：
+      </p>
+      <div className="grid grid-cols-6 gap-1">
+        {previews.map((src, i) => (
+          <img
+            key={i}
+            src={src}
+            alt={i === 0 ? '原图' : `增强样本 ${i}`}
+            className={`w-full aspect-square bg-black ${i === 0 ? 'ring-2 ring-indigo-400' : ''}`}
+            style={{ imageRendering: 'pixelated' }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { ChartOptions } from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { BatchLogEntry } from '../../utils/cnn-model';
+
+interface BatchChartProps {
+  batchLogs: BatchLogEntry[];
+}
+
+// Long runs produce thousands of batches; more points than this are thinned
+// out before drawing, which keeps every update cheap.
+const MAX_POINTS = 600;
+
+// Exponential moving average with the same start-up correction as
+// TensorBoard's smoothing slider, so the first points are not pulled to 0.
+function smooth(values: number[], smoothing: number) {
+  let last = 0;
+  return values.map((v, i) => {
+    last = last * smoothing + (1 - smoothing) * v;
+    return smoothing > 0 ? last / (1 - Math.pow(smoothing, i + 1)) : v;
+  });
+}
+
+function thin<T>(points: T[]) {
+  if (points.length <= MAX_POINTS) return points;
+  const stride = Math.ceil(points.length / MAX_POINTS);
+  return points.filter((_, i) => i % stride === 0 || i === points.length - 1);
+}
+
+export const BatchChart: React.FC<BatchChartProps> = ({ batchLogs }) => {
+  const [smoothing, setSmoothing] = useState(0.6);
+
+  const x = batchLogs.map(b => b.epoch);
+  const series = (values: number[]) => thin(values.map((y, i) => ({ x: x[i], y })));
+  const loss = batchLogs.map(b => b.loss);
+  const acc = batchLogs.map(b => b.acc);
+
+  const raw = { borderWidth: 1, pointRadius: 0 };
+  const smoothed = { borderWidth: 2, pointRadius: 0 };
+
+  const chartData = {
+    datasets: [
+      {
+        label: 'Loss (损失)',
+        data: series(smooth(loss, smoothing)),
+        borderColor: 'rgb(255, 99, 132)',
+        backgroundColor: 'rgba(255, 99, 132, 0.5)',
+        yAxisID: 'y',
+        ...smoothed,
+      },
+      {
+        label: 'Accuracy (准确率)',
+        data: series(smooth(acc, smoothing)),
+        borderColor: 'rgb(53, 162, 235)',
+        backgroundColor: 'rgba(53, 162, 235, 0.5)',
+        yAxisID: 'y1',
+        ...smoothed,
+      },
+      // The unsmoothed values stay visible as faint lines behind
+      ...(smoothing > 0 ? [
+        {
+          label: '原始 Loss',
+          data: series(loss),
+          borderColor: 'rgba(255, 99, 132, 0.25)',
+          yAxisID: 'y',
+          ...raw,
+        },
+        {
+          label: '原始 Accuracy',
+          data: series(acc),
+          borderColor: 'rgba(53, 162, 235, 0.25)',
+          yAxisID: 'y1',
+          ...raw,
+        },
+      ] : []),
+    ],
+  };
+
+  const options: ChartOptions<'line'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: {
+      mode: 'nearest' as const,
+      axis: 'x' as const,
+      intersect: false,
+    },
+    plugins: {
+      legend: {
+        position: 'top' as const,
+        labels: {
+          boxWidth: 12,
+          filter: item => !item.text.startsWith('原始'),
+        },
+      },
+    },
+    scales: {
+      x: {
+        type: 'linear' as const,
+        min: 0,
+        ticks: {
+          callback: (value) => `E${value}`,
+        },
+      },
+      y: {
+        type: 'linear' as const,
+        position: 'left' as const,
+        title: { display: true, text: 'Loss' }
+      },
+      y1: {
+        type: 'linear' as const,
+        position: 'right' as const,
+        grid: {
+          drawOnChartArea: false,
+        },
+        min: 0,
+        max: 1,
+        title: { display: true, text: 'Accuracy' }
+      },
+    },
+    animation: {
+        duration: 0
+    }
+  };
+
+  return (
+    <>
+      <div className="h-48 w-full border border-gray-100 rounded p-2">
+        <Line options={options} data={chartData} />
+      </div>
+      <label className="flex items-center gap-2 text-xs text-gray-500 mt-1">
+        平滑 (Smoothing)
+        <input
+          type="range"
+          min={0}
+          max={0.95}
+          step={0.05}
+          value={smoothing}
+          onChange={(e) => setSmoothing(Number(e.target.value))}
+          className="flex-1"
+        />
+        <span className="w-8 text-right">{smoothing.toFixed(2)}</span>
+      </label>
+    </>
+  );
+};
@@ -1,195 +1,305 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { motion, AnimatePresence } from 'framer-motion';
+import React, { useState, useEffect, useMemo } from 'react';
+import { ConvKernels, FeatureMaps, kernelValue } from '../../utils/cnn-model';
+import { Padding, samePadding } from '../../utils/cnn-architecture';
+import { PlaybackControls, SlidingWindow, usePlayback } from './AnimationPlayback';
 
 interface ConvAnimationProps {
-  inputData: number[][]; // 2D array of pixel values (0-1 or 0-255)
-  kernel: number[][];    // 2D array of weights
-  bias: number;
+  input: FeatureMaps; // Everything the layer receives
+  kernels: ConvKernels;
+  defaultStride?: number;
+  defaultPadding?: Padding;
   activation?: 'relu' | 'none';
 }
 
-export const ConvAnimation: React.FC<ConvAnimationProps> = ({ 
-  inputData, 
-  kernel, 
-  bias,
-  activation = 'relu' 
+// Side of the input region the animation works on
+const REGION_SIZE = 10;
+const STRIDES = [1, 2, 3];
+
+export const ConvAnimation: React.FC<ConvAnimationProps> = ({
+  input,
+  kernels,
+  defaultStride = 1,
+  defaultPadding = 'valid',
+  activation = 'relu'
 }) => {
-  const [step, setStep] = useState(0);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [speed, setSpeed] = useState(500); // ms per step
+  const [filter, setFilter] = useState(0);
+  const [stride, setStride] = useState(defaultStride);
+  const [padding, setPadding] = useState<Padding>(defaultPadding);
+  const [channel, setChannel] = useState(0);      // Input channel drawn in the grids
+  const [multiChannel, setMultiChannel] = useState(true);
 
   // Dimensions
-  const inputH = inputData.length;
-  const inputW = inputData[0].length;
-  const kernelH = kernel.length;
-  const kernelW = kernel[0].length;
-  
-  // Output dimensions (valid padding)
-  const outputH = inputH - kernelH + 1;
-  const outputW = inputW - kernelW + 1;
+  const [imageH, imageW, channels] = input.shape;
+  const [kernelH, kernelW, , filters] = kernels.shape;
+  const regionH = Math.min(REGION_SIZE, imageH);
+  const regionW = Math.min(REGION_SIZE, imageW);
+  const [region, setRegion] = useState({
+    top: Math.floor((imageH - regionH) / 2),
+    left: Math.floor((imageW - regionW) / 2),
+  });
+
+  // A different layer or image size: start again from the centre
+  useEffect(() => {
+    setRegion({ top: Math.floor((imageH - regionH) / 2), left: Math.floor((imageW - regionW) / 2) });
+    setFilter(f => Math.min(f, filters - 1));
+    setChannel(c => Math.min(c, channels - 1));
+  }, [imageH, imageW, regionH, regionW, filters, channels]);
+
+  // The channels that are summed: all of them, or only the one on screen
+  const usedChannels = multiChannel ? Array.from({ length: channels }, (_, c) => c) : [channel];
+
+  // Zero padding around the region
+  const [padTop, padBottom] = padding === 'same' ? samePadding(regionH, kernelH, stride) : [0, 0];
+  const [padLeft, padRight] = padding === 'same' ? samePadding(regionW, kernelW, stride) : [0, 0];
+  const inputH = regionH + padTop + padBottom;
+  const inputW = regionW + padLeft + padRight;
+
+  // Output dimensions
+  const outputH = Math.max(0, Math.floor((inputH - kernelH) / stride) + 1);
+  const outputW = Math.max(0, Math.floor((inputW - kernelW) / stride) + 1);
   const totalSteps = outputH * outputW;
+  const playback = usePlayback(totalSteps);
+  const { step, setStep, setIsPlaying } = playback;
+
+  useEffect(() => {
+    setStep(0);
+    setIsPlaying(false);
+  }, [filter, stride, padding, region, multiChannel, multiChannel ? -1 : channel]);
+
+  const isPad = (y: number, x: number) => y < padTop || y >= padTop + regionH || x < padLeft || x >= padLeft + regionW;
+
+  // Value at (y, x) of the padded region
+  const valueAt = (c: number, y: number, x: number) => {
+    if (isPad(y, x)) return 0;
+    return input.data[((region.top + y - padTop) * imageW + (region.left + x - padLeft)) * channels + c];
+  };
+
+  // Sum of pixel × weight for one channel under the window at output (i, j)
+  const channelSum = (c: number, i: number, j: number) => {
+    let s = 0;
+    for (let ki = 0; ki < kernelH; ki++) {
+      for (let kj = 0; kj < kernelW; kj++) {
+        s += valueAt(c, i * stride + ki, j * stride + kj) * kernelValue(kernels, filter, c, ki, kj);
+      }
+    }
+    return s;
+  };
+
+  const bias = kernels.bias[filter];
+  const applyActivation = (v: number) => activation === 'relu' ? Math.max(0, v) : v;
+
+  // The whole output map, so its colours share one scale
+  const output = Array.from({ length: outputH }, (_, i) =>
+    Array.from({ length: outputW }, (_, j) =>
+      applyActivation(usedChannels.reduce((sum, c) => sum + channelSum(c, i, j), bias))
+    )
+  );
+
+  const inputMax = useMemo(() => {
+    let max = 1e-6;
+    for (let y = 0; y < regionH; y++) {
+      for (let x = 0; x < regionW; x++) {
+        for (let c = 0; c < channels; c++) {
+          max = Math.max(max, input.data[((region.top + y) * imageW + region.left + x) * channels + c]);
+        }
+      }
+    }
+    return max;
+  }, [input, region, regionH, regionW, imageW, channels]);
+  const outputMax = output.flat().reduce((max, v) => Math.max(max, Math.abs(v)), 1e-6);
+  const kernelMax = useMemo(() => {
+    let max = 1e-6;
+    for (let c = 0; c < channels; c++) {
+      for (let i = 0; i < kernelH; i++) {
+        for (let j = 0; j < kernelW; j++) max = Math.max(max, Math.abs(kernelValue(kernels, filter, c, i, j)));
+      }
+    }
+    return max;
+  }, [kernels, filter, channels, kernelH, kernelW]);
 
   // Current position
-  const currentY = Math.floor(step / outputW);
-  const currentX = step % outputW;
+  const currentY = Math.floor(step / Math.max(1, outputW));
+  const currentX = step % Math.max(1, outputW);
 
   // Calculate current result
   const calculateResult = () => {
-    let sum = 0;
     const details: { i: number, j: number, val: number, w: number }[] = [];
-    
     for (let i = 0; i < kernelH; i++) {
       for (let j = 0; j < kernelW; j++) {
-        const val = inputData[currentY + i][currentX + j];
-        const w = kernel[i][j];
-        sum += val * w;
+        const val = valueAt(channel, currentY * stride + i, currentX * stride + j);
+        const w = kernelValue(kernels, filter, channel, i, j);
         details.push({ i, j, val, w });
       }
     }
-    sum += bias;
+    const perChannel = usedChannels.map(c => ({ c, sum: channelSum(c, currentY, currentX) }));
+    const sum = perChannel.reduce((s, p) => s + p.sum, 0) + bias;
     const preActivation = sum;
-    const final = activation === 'relu' ? Math.max(0, sum) : sum;
-    
-    return { sum, preActivation, final, details };
-  };
+    const final = applyActivation(sum);
 
-  const result = calculateResult();
+    return { sum, preActivation, final, details, perChannel };
+  };
 
-  // Animation Loop
-  useEffect(() => {
-    let timer: any;
-    if (isPlaying) {
-      timer = setInterval(() => {
-        setStep(prev => {
-          if (prev >= totalSteps - 1) {
-            setIsPlaying(false);
-            return prev;
-          }
-          return prev + 1;
-        });
-      }, speed);
-    }
-    return () => clearInterval(timer);
-  }, [isPlaying, totalSteps, speed]);
+  const result = totalSteps > 0 ? calculateResult() : null;
 
   // Helper to get color for value
-  const getColor = (val: number, isWeight = false) => {
-    // Normalize for display
-    // Weights can be negative. Pixels are 0-1 (or 0-255).
-    // Let's assume pixels are 0-1.
+  const getColor = (val: number, isWeight = false, max = inputMax) => {
     if (isWeight) {
         // Weights: Red (negative) to Blue (positive)
-        const intensity = Math.min(255, Math.abs(val) * 200); // Scale up for visibility
-        return val >= 0 
-            ? `rgba(0, 0, 255, ${Math.min(1, Math.abs(val) * 2)})` 
-            : `rgba(255, 0, 0, ${Math.min(1, Math.abs(val) * 2)})`;
+        const alpha = Math.min(1, Math.abs(val) / kernelMax);
+        return val >= 0
+            ? `rgba(0, 0, 255, ${alpha})`
+            : `rgba(255, 0, 0, ${alpha})`;
     } else {
-        // Pixels: Grayscale (0=Black, 1=White)
-        // But inputData might be 0-255 or 0-1. Let's normalize to 0-255.
-        const v = val > 1 ? val : val * 255;
+        // Pixels and activations: Grayscale (0=Black, max=White)
+        const v = Math.round(Math.max(0, Math.min(1, val / max)) * 255);
         return `rgb(${v}, ${v}, ${v})`;
     }
   };
 
-  const getTextColor = (val: number, isWeight = false) => {
-      if (isWeight) return 'white';
-      const v = val > 1 ? val : val * 255;
-      return v > 128 ? 'black' : 'white';
+  const getTextColor = (val: number, isWeight = false, max = inputMax) => {
+      if (isWeight) return Math.abs(val) / kernelMax > 0.4 ? 'white' : 'black';
+      return val / max > 0.5 ? 'black' : 'white';
   };
 
+  const selectClass = "text-xs border rounded px-1 py-0.5";
+
   return (
     <div className="bg-gray-50 p-4 rounded-lg border border-gray-200 mt-4">
       <div className="flex justify-between items-center mb-4">
         <h4 className="font-bold text-gray-700">卷积过程演示 (Convolution Process)</h4>
-        <div className="flex gap-2">
-            <button 
-                onClick={() => setIsPlaying(!isPlaying)}
-                className={`px-3 py-1 rounded text-sm font-bold text-white ${isPlaying ? 'bg-yellow-500' : 'bg-green-500'}`}
-            >
-                {isPlaying ? '暂停 (Pause)' : '播放 (Play)'}
-            </button>
-            <button 
-                onClick={() => setStep(0)}
-                className="px-3 py-1 rounded text-sm bg-gray-500 text-white"
-            >
-                重置 (Reset)
-            </button>
-            <select 
-                value={speed} 
-                onChange={(e) => setSpeed(Number(e.target.value))}
-                className="text-sm border rounded px-2"
-            >
-                <option value={1000}>慢速</option>
-                <option value={500}>中速</option>
-                <option value={100}>快速</option>
-            </select>
-        </div>
+        <PlaybackControls playback={playback} disabled={totalSteps === 0} />
+      </div>
+
+      {/* Settings */}
+      <div className="flex flex-wrap gap-x-4 gap-y-2 items-center text-xs text-gray-600 mb-4">
+        <label className="flex items-center gap-1">
+          卷积核
+          <select value={filter} onChange={(e) => setFilter(Number(e.target.value))} className={selectClass}>
+            {Array.from({ length: filters }, (_, f) => <option key={f} value={f}>#{f + 1}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          步长 (Stride)
+          <select value={stride} onChange={(e) => setStride(Number(e.target.value))} className={selectClass}>
+            {STRIDES.map(s => <option key={s} value={s}>{s}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          填充 (Padding)
+          <select value={padding} onChange={(e) => setPadding(e.target.value as Padding)} className={selectClass}>
+            <option value="valid">valid（不填充）</option>
+            <option value="same">same（补 0）</option>
+          </select>
+        </label>
+        {channels > 1 && (
+          <>
+            <label className="flex items-center gap-1">
+              显示通道
+              <select value={channel} onChange={(e) => setChannel(Number(e.target.value))} className={selectClass}>
+                {Array.from({ length: channels }, (_, c) => <option key={c} value={c}>{c + 1}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-1">
+              <input type="checkbox" checked={multiChannel} onChange={(e) => setMultiChannel(e.target.checked)} />
+              所有 {channels} 个通道求和
+            </label>
+          </>
+        )}
+        {imageH > regionH && (
+          <label className="flex items-center gap-1">
+            区域 行
+            <input
+              type="range"
+              min={0}
+              max={imageH - regionH}
+              value={region.top}
+              onChange={(e) => setRegion(r => ({ ...r, top: Number(e.target.value) }))}
+              className="w-20"
+            />
+          </label>
+        )}
+        {imageW > regionW && (
+          <label className="flex items-center gap-1">
+            列
+            <input
+              type="range"
+              min={0}
+              max={imageW - regionW}
+              value={region.left}
+              onChange={(e) => setRegion(r => ({ ...r, left: Number(e.target.value) }))}
+              className="w-20"
+            />
+          </label>
+        )}
       </div>
 
+      {!result ? (
+        <p className="text-sm text-gray-500">区域比卷积核还小，请改用 same 填充。</p>
+      ) : (
       <div className="flex flex-col md:flex-row gap-8 items-start justify-center">
         {/* Input Grid */}
         <div className="relative">
-            <h5 className="text-center text-sm font-semibold mb-2">输入图像 (Input)</h5>
-            <div 
+            <h5 className="text-center text-sm font-semibold mb-2">
+              输入{channels > 1 ? `（通道 ${channel + 1}）` : '图像'} (Input)
+            </h5>
+            <div
                 className="grid gap-px bg-gray-300 border border-gray-400"
                 style={{ gridTemplateColumns: `repeat(${inputW}, 24px)` }}
             >
-                {inputData.map((row, i) => (
-                    row.map((val, j) => {
-                        const isInWindow = i >= currentY && i < currentY + kernelH &&
-                                         j >= currentX && j < currentX + kernelW;
+                {Array.from({ length: inputH }, (_, i) => (
+                    Array.from({ length: inputW }, (_, j) => {
+                        const val = valueAt(channel, i, j);
+                        const isInWindow = i >= currentY * stride && i < currentY * stride + kernelH &&
+                                         j >= currentX * stride && j < currentX * stride + kernelW;
+                        const pad = isPad(i, j);
                         return (
-                            <div 
+                            <div
                                 key={`${i}-${j}`}
                                 className={`w-6 h-6 flex items-center justify-center text-[8px] transition-all duration-200
                                     ${isInWindow ? 'ring-2 ring-blue-500 z-10' : ''}
+                                    ${pad ? 'text-gray-400' : ''}
                                 `}
-                                style={{ 
-                                    backgroundColor: getColor(val),
-                                    color: getTextColor(val)
-                                }}
+                                style={pad
+                                    ? { background: 'repeating-linear-gradient(45deg, #f9fafb, #f9fafb 3px, #e5e7eb 3px, #e5e7eb 6px)' }
+                                    : { backgroundColor: getColor(val), color: getTextColor(val) }
+                                }
+                                title={pad ? '填充的 0 (padding)' : undefined}
                             >
-                                {val.toFixed(1)}
+                                {pad ? '0' : val.toFixed(1)}
                             </div>
                         );
                     })
                 ))}
             </div>
-            {/* Sliding Window Highlight */}
-            <motion.div 
-                className="absolute border-2 border-blue-500 pointer-events-none shadow-lg bg-blue-500/10"
-                layout
-                style={{
-                    width: kernelW * 24 + (kernelW - 1) * 1, // width + gaps
-                    height: kernelH * 24 + (kernelH - 1) * 1,
-                    top: 28 + currentY * 25, // Header offset + row height
-                    left: currentX * 25
-                }}
-                transition={{ type: "spring", stiffness: 300, damping: 30 }}
-            />
+            <SlidingWindow row={currentY * stride} col={currentX * stride} height={kernelH} width={kernelW} />
         </div>
 
         {/* Kernel & Math */}
         <div className="flex flex-col items-center justify-center gap-4">
             <div>
-                <h5 className="text-center text-sm font-semibold mb-2">卷积核 (Kernel)</h5>
-                <div 
+                <h5 className="text-center text-sm font-semibold mb-2">
+                  卷积核 #{filter + 1}{channels > 1 ? `（通道 ${channel + 1}）` : ''} (Kernel)
+                </h5>
+                <div
                     className="grid gap-px bg-gray-300 border border-gray-400"
                     style={{ gridTemplateColumns: `repeat(${kernelW}, 24px)` }}
                 >
-                    {kernel.map((row, i) => (
-                        row.map((val, j) => (
-                            <div 
-                                key={`k-${i}-${j}`}
-                                className="w-6 h-6 flex items-center justify-center text-[8px] font-bold"
-                                style={{ 
-                                    backgroundColor: getColor(val, true),
-                                    color: getTextColor(val, true)
-                                }}
-                            >
-                                {val.toFixed(1)}
-                            </div>
-                        ))
+                    {Array.from({ length: kernelH }, (_, i) => (
+                        Array.from({ length: kernelW }, (_, j) => {
+                            const val = kernelValue(kernels, filter, channel, i, j);
+                            return (
+                                <div
+                                    key={`k-${i}-${j}`}
+                                    className="w-6 h-6 flex items-center justify-center text-[8px] font-bold"
+                                    style={{
+                                        backgroundColor: getColor(val, true),
+                                        color: getTextColor(val, true)
+                                    }}
+                                >
+                                    {val.toFixed(1)}
+                                </div>
+                            );
+                        })
                     ))}
                 </div>
             </div>
@@ -206,14 +316,29 @@ export const ConvAnimation: React.FC<ConvAnimationProps> = ({
                         </div>
                     ))}
                 </div>
+                {channels > 1 && (
+                    <div className="border-t mt-1 pt-1 max-h-24 overflow-y-auto space-y-1">
+                        {result.perChannel.map(({ c, sum }) => (
+                            <div key={c} className={`flex justify-between ${c === channel ? 'font-bold text-gray-800' : 'text-gray-600'}`}>
+                                <span>通道 {c + 1} 之和</span>
+                                <span>= {sum.toFixed(2)}</span>
+                            </div>
+                        ))}
+                        {!multiChannel && (
+                            <div className="text-orange-600">只算了一个通道，结果不是真正的特征图</div>
+                        )}
+                    </div>
+                )}
                 <div className="border-t mt-1 pt-1 flex justify-between font-bold">
                     <span>求和 + 偏置({bias.toFixed(2)})</span>
                     <span>= {result.preActivation.toFixed(2)}</span>
                 </div>
-                <div className="border-t mt-1 pt-1 flex justify-between text-blue-600 font-bold">
-                    <span>ReLU(激活)</span>
-                    <span>= {result.final.toFixed(2)}</span>
-                </div>
+                {activation === 'relu' && (
+                    <div className="border-t mt-1 pt-1 flex justify-between text-blue-600 font-bold">
+                        <span>ReLU(激活)</span>
+                        <span>= {result.final.toFixed(2)}</span>
+                    </div>
+                )}
             </div>
 
             <div className="text-2xl text-gray-400">=</div>
@@ -222,51 +347,40 @@ export const ConvAnimation: React.FC<ConvAnimationProps> = ({
         {/* Output Grid */}
         <div>
             <h5 className="text-center text-sm font-semibold mb-2">特征图 (Feature Map)</h5>
-            <div 
+            <div
                 className="grid gap-px bg-gray-300 border border-gray-400"
                 style={{ gridTemplateColumns: `repeat(${outputW}, 24px)` }}
             >
-                {Array(outputH).fill(0).map((_, i) => (
-                    Array(outputW).fill(0).map((_, j) => {
+                {output.map((row, i) => (
+                    row.map((cellVal, j) => {
                         const isCurrent = i === currentY && j === currentX;
                         const isPast = i < currentY || (i === currentY && j < currentX);
-                        
-                        // We need to calculate the value for this cell if it's past or current
-                        // But for performance, we might not want to recalc everything every render.
-                        // However, for a small grid, it's fine.
-                        let cellVal = 0;
-                        if (isPast || isCurrent) {
-                            // Calculate value for (i, j)
-                            let s = 0;
-                            for (let ki = 0; ki < kernelH; ki++) {
-                                for (let kj = 0; kj < kernelW; kj++) {
-                                    s += inputData[i + ki][j + kj] * kernel[ki][kj];
-                                }
-                            }
-                            s += bias;
-                            cellVal = activation === 'relu' ? Math.max(0, s) : s;
-                        }
+                        const isShown = isPast || isCurrent;
 
                         return (
-                            <div 
+                            <div
                                 key={`o-${i}-${j}`}
                                 className={`w-6 h-6 flex items-center justify-center text-[8px] transition-all duration-200
                                     ${isCurrent ? 'ring-2 ring-green-500 z-10 scale-110' : ''}
-                                    ${!isPast && !isCurrent ? 'opacity-30' : ''}
+                                    ${!isShown ? 'opacity-30' : ''}
                                 `}
-                                style={{ 
-                                    backgroundColor: (isPast || isCurrent) ? getColor(cellVal) : 'white',
-                                    color: (isPast || isCurrent) ? getTextColor(cellVal) : 'gray'
+                                style={{
+                                    backgroundColor: isShown ? getColor(cellVal, false, outputMax) : 'white',
+                                    color: isShown ? getTextColor(cellVal, false, outputMax) : 'gray'
                                 }}
                             >
-                                {(isPast || isCurrent) ? cellVal.toFixed(1) : '?'}
+                                {isShown ? cellVal.toFixed(1) : '?'}
                             </div>
                         );
                     })
                 ))}
             </div>
+            <p className="text-[10px] text-gray-500 text-center mt-1">
+              {inputH}x{inputW} → {outputH}x{outputW}（步长 {stride}）
+            </p>
         </div>
       </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,115 @@
+import React, { useMemo, useState } from 'react';
+import { CustomSample } from '../../utils/custom-dataset';
+import { pixelsToDataUrl } from '../../utils/cnn-model';
+
+interface CustomDatasetPanelProps {
+  samples: CustomSample[];
+  classNames: string[];
+  imageShape: [number, number, number];
+  disabled?: boolean;
+  onDelete: (id: number) => Promise<void>;
+  onExport: () => void;
+  onImport: (file: File) => Promise<void>;
+}
+
+export const CustomDatasetPanel: React.FC<CustomDatasetPanelProps> = ({
+  samples,
+  classNames,
+  imageShape,
+  disabled,
+  onDelete,
+  onExport,
+  onImport
+}) => {
+  const [isBusy, setIsBusy] = useState(false);
+
+  const thumbnails = useMemo(
+    () => new Map(samples.map(s => [s.id, pixelsToDataUrl(s.pixels, imageShape)])),
+    [samples, imageShape]
+  );
+
+  const byClass = useMemo(
+    () => classNames.map((_, label) => samples.filter(s => s.label === label)),
+    [samples, classNames]
+  );
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      console.error("Custom dataset action failed", err);
+      alert(`操作失败：${err instanceof Error ? err.message : err}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) run(() => onImport(file));
+  };
+
+  const isDisabled = disabled || isBusy;
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-md mt-4">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-bold text-gray-800">自建数据集 (My Data)</h3>
+        <span className="text-xs text-gray-500">共 {samples.length} 张</span>
+      </div>
+
+      <div className="flex gap-2 mb-3">
+        <button
+          onClick={onExport}
+          disabled={isDisabled || samples.length === 0}
+          className="flex-1 px-3 py-1 bg-blue-100 text-blue-600 rounded hover:bg-blue-200 text-sm disabled:opacity-50"
+        >
+          导出文件
+        </button>
+        <label className={`flex-1 text-center px-3 py-1 bg-blue-100 text-blue-600 rounded text-sm ${isDisabled ? 'opacity-50' : 'hover:bg-blue-200 cursor-pointer'}`}>
+          导入文件
+          <input type="file" accept=".json,application/json" onChange={handleImport} className="hidden" disabled={isDisabled} />
+        </label>
+      </div>
+
+      {samples.length === 0 ? (
+        <p className="text-xs text-gray-400">在上方画一个图案，选择标签后点击“保存样本”。</p>
+      ) : (
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {byClass.map((classSamples, label) => (
+            <div key={label} className="flex items-start gap-2 text-xs">
+              <span className="w-12 shrink-0 truncate font-bold text-gray-600" title={classNames[label]}>
+                {classNames[label]}
+              </span>
+              <span className={`w-6 shrink-0 text-right ${classSamples.length === 0 ? 'text-red-400' : 'text-gray-500'}`}>
+                {classSamples.length}
+              </span>
+              <div className="flex flex-wrap gap-1">
+                {classSamples.map(sample => (
+                  <div key={sample.id} className="relative group">
+                    <img
+                      src={thumbnails.get(sample.id)}
+                      alt={classNames[label]}
+                      className="w-7 h-7 border border-gray-300"
+                      style={{ imageRendering: 'pixelated' }}
+                    />
+                    <button
+                      onClick={() => run(() => onDelete(sample.id))}
+                      disabled={isDisabled}
+                      title="删除这个样本"
+                      className="absolute -top-1 -right-1 hidden group-hover:flex w-3.5 h-3.5 items-center justify-center rounded-full bg-red-500 text-white text-[9px] leading-none"
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,186 @@
+import React, { useMemo, useState } from 'react';
+import { EvaluationResult, getTestImagePixels } from '../../utils/evaluation';
+import { pixelsToDataUrl } from '../../utils/cnn-model';
+import { DatasetSource } from '../../utils/dataset-source';
+
+interface EvaluationPanelProps {
+  data: DatasetSource;
+  result: EvaluationResult | null;
+  isStale: boolean; // The model was trained or replaced after this evaluation
+  isEvaluating: boolean;
+  progress: number; // 0-100
+  disabled?: boolean;
+  onEvaluate: () => void;
+}
+
+// Test images listed for one confusion matrix cell
+const MAX_CELL_IMAGES = 120;
+
+const percent = (v: number) => `${(v * 100).toFixed(1)}%`;
+
+// Share of a confusion matrix row, so colours compare classes with different support
+function rowShare(row: number[], n: number) {
+  const total = row.reduce((sum, v) => sum + v, 0);
+  return total > 0 ? n / total : 0;
+}
+
+export const EvaluationPanel: React.FC<EvaluationPanelProps> = ({
+  data,
+  result,
+  isStale,
+  isEvaluating,
+  progress,
+  disabled,
+  onEvaluate
+}) => {
+  const [selectedCell, setSelectedCell] = useState<{ actual: number; predicted: number } | null>(null);
+  const { classNames, imageShape } = data.info;
+
+  const cellImages = useMemo(() => {
+    if (!result || !selectedCell) return [];
+    const splits = data.getSplits();
+    const indices: number[] = [];
+    for (let i = 0; i < result.numExamples && indices.length < MAX_CELL_IMAGES; i++) {
+      if (result.labels[i] === selectedCell.actual && result.predictions[i] === selectedCell.predicted) indices.push(i);
+    }
+    return indices.map(index => ({
+      index,
+      src: pixelsToDataUrl(getTestImagePixels(splits, index), imageShape),
+      confidence: result.confidences[index],
+    }));
+  }, [result, selectedCell, data, imageShape]);
+
+  const selectedCount = result && selectedCell ? result.confusion[selectedCell.actual][selectedCell.predicted] : 0;
+  const cellSize = classNames.length > 12 ? 'w-5 h-5 text-[8px]' : 'w-9 h-9 text-[10px]';
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-md mt-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-gray-800">5. 模型评估 (Evaluation)</h3>
+        <button
+          onClick={() => {
+            setSelectedCell(null);
+            onEvaluate();
+          }}
+          disabled={disabled || isEvaluating}
+          className="px-4 py-2 bg-purple-600 text-white rounded-lg font-bold hover:bg-purple-700 disabled:bg-gray-400 text-sm"
+        >
+          {isEvaluating ? `评估中... ${Math.round(progress)}%` : `在全部 ${data.numTestElements} 张测试图片上评估 (Evaluate)`}
+        </button>
+      </div>
+
+      {!result ? (
+        <p className="text-sm text-gray-400">
+          训练时显示的准确率只用了一小部分验证图片。点击“评估”，用整个测试集检验模型，看看它最容易把哪些类别认错。
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div>
+            <div className="flex items-baseline gap-3 mb-2">
+              <span className="text-gray-600 text-sm">总体准确率</span>
+              <span className="text-3xl font-bold text-purple-600">{percent(result.accuracy)}</span>
+              <span className="text-xs text-gray-400">共 {result.numExamples} 张</span>
+            </div>
+            {isStale && (
+              <p className="text-xs text-orange-600 mb-2">模型在评估之后又有变化，结果可能已经过时，请重新评估。</p>
+            )}
+
+            <p className="text-xs text-gray-500 mb-1">混淆矩阵：行是真实类别，列是预测类别。点击格子查看对应的图片。</p>
+            <div className="overflow-auto">
+              <table className="border-collapse">
+                <thead>
+                  <tr>
+                    <th className="text-[10px] text-gray-400 pr-1">真\预</th>
+                    {classNames.map((name, p) => (
+                      <th key={p} className="text-[10px] text-gray-500 font-normal truncate max-w-[2.25rem]" title={name}>{name}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.confusion.map((row, actual) => (
+                    <tr key={actual}>
+                      <th className="text-[10px] text-gray-500 font-normal pr-1 text-right truncate max-w-[3rem]" title={classNames[actual]}>
+                        {classNames[actual]}
+                      </th>
+                      {row.map((n, predicted) => {
+                        const share = rowShare(row, n);
+                        const isDiagonal = actual === predicted;
+                        const isSelected = selectedCell?.actual === actual && selectedCell?.predicted === predicted;
+                        const background = n === 0
+                          ? undefined
+                          : isDiagonal
+                            ? `rgba(34, 197, 94, ${0.15 + share * 0.85})`
+                            : `rgba(239, 68, 68, ${0.15 + Math.min(1, share * 4) * 0.85})`;
+                        return (
+                          <td key={predicted} className="p-0">
+                            <button
+                              onClick={() => setSelectedCell({ actual, predicted })}
+                              disabled={n === 0}
+                              title={`真实 ${classNames[actual]} → 预测 ${classNames[predicted]}：${n} 张`}
+                              className={`${cellSize} border border-gray-100 ${isSelected ? 'ring-2 ring-purple-600' : ''} ${n === 0 ? 'text-gray-300' : 'hover:ring-2 hover:ring-purple-300'}`}
+                              style={{ background }}
+                            >
+                              {n}
+                            </button>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-4 min-w-0">
+            <div className="overflow-auto max-h-72">
+              <table className="w-full text-xs">
+                <thead className="sticky top-0 bg-white">
+                  <tr className="text-gray-500 border-b">
+                    <th className="text-left py-1">类别</th>
+                    <th className="text-right">精确率 (Precision)</th>
+                    <th className="text-right">召回率 (Recall)</th>
+                    <th className="text-right">F1</th>
+                    <th className="text-right">图片数</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.perClass.map((m, cls) => (
+                    <tr key={cls} className="border-b border-gray-50">
+                      <td className="py-0.5 font-bold text-gray-600">{classNames[cls]}</td>
+                      <td className="text-right">{percent(m.precision)}</td>
+                      <td className="text-right">{percent(m.recall)}</td>
+                      <td className={`text-right ${m.f1 < 0.8 ? 'text-red-500' : ''}`}>{m.f1.toFixed(3)}</td>
+                      <td className="text-right text-gray-400">{m.support}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {selectedCell && (
+              <div>
+                <p className="text-sm text-gray-700 mb-1">
+                  真实是 <b>{classNames[selectedCell.actual]}</b>，被预测为 <b>{classNames[selectedCell.predicted]}</b>：{selectedCount} 张
+                  {selectedCount > MAX_CELL_IMAGES && `（显示前 ${MAX_CELL_IMAGES} 张）`}
+                </p>
+                <div className="flex flex-wrap gap-1 max-h-48 overflow-y-auto">
+                  {cellImages.map(({ index, src, confidence }) => (
+                    <img
+                      key={index}
+                      src={src}
+                      alt={`测试图片 #${index}`}
+                      title={`#${index} · 置信度 ${percent(confidence)}`}
+                      className="w-8 h-8 bg-black"
+                      style={{ imageRendering: 'pixelated' }}
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
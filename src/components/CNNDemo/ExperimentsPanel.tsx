@@ -0,0 +1,233 @@
+import React, { useState } from 'react';
+import { ChartOptions } from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { Experiment } from '../../utils/experiment-storage';
+import { TrainingLogEntry } from '../../utils/cnn-model';
+import { analyzeArchitecture, summarizeArchitecture } from '../../utils/cnn-architecture';
+import { DATASETS } from '../../utils/dataset-source';
+import { isAugmentationEnabled } from '../../utils/augmentation';
+
+interface ExperimentsPanelProps {
+  experiments: Experiment[];
+  currentId: string | null; // Experiment of the model on screen, if it has been trained
+  disabled?: boolean;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+type Metric = 'valAcc' | 'acc' | 'valLoss' | 'loss';
+
+const METRIC_LABELS: Record<Metric, string> = {
+  valAcc: '验证准确率 (Val Accuracy)',
+  acc: '训练准确率 (Accuracy)',
+  valLoss: '验证损失 (Val Loss)',
+  loss: '训练损失 (Loss)',
+};
+
+const COLORS = ['#4f46e5', '#dc2626', '#16a34a', '#d97706', '#0891b2', '#9333ea', '#db2777', '#4b5563'];
+
+const percent = (v: number | undefined) => v === undefined ? '-' : `${(v * 100).toFixed(1)}%`;
+
+function lastValue(logs: TrainingLogEntry[], metric: Metric) {
+  for (let i = logs.length - 1; i >= 0; i--) {
+    const v = logs[i][metric];
+    if (v !== undefined) return v;
+  }
+  return undefined;
+}
+
+// Settings shown in the comparison table. Cells whose value differs between
+// the selected experiments are highlighted.
+const COLUMNS: { label: string; value: (e: Experiment) => string }[] = [
+  { label: '数据集', value: e => DATASETS[e.datasetId].name },
+  { label: '结构', value: e => summarizeArchitecture(e.architecture) },
+  { label: '参数量', value: e => analyzeArchitecture(e.architecture, DATASETS[e.datasetId].classNames.length).totalParams.toLocaleString() },
+  { label: '优化器', value: e => e.config.optimizer },
+  { label: '学习率', value: e => String(e.config.learningRate) },
+  { label: '批大小', value: e => String(e.config.batchSize) },
+  { label: '训练图片', value: e => String(e.config.trainSize) },
+  { label: '增强', value: e => isAugmentationEnabled(e.config.augmentation) ? '开' : '关' },
+  { label: '训练数据', value: e => e.dataMix.mode === 'mixed' ? `混合 ${Math.round(e.dataMix.customFraction * 100)}%` : e.dataMix.mode === 'custom' ? '自建' : '数据集' },
+  { label: '轮数', value: e => e.startEpoch > 0 ? `${e.startEpoch} + ${e.logs.length}` : String(e.logs.length) },
+];
+
+export const ExperimentsPanel: React.FC<ExperimentsPanelProps> = ({
+  experiments,
+  currentId,
+  disabled,
+  onRename,
+  onDelete
+}) => {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [metric, setMetric] = useState<Metric>('valAcc');
+
+  // Deleted experiments drop out of the selection
+  const selected = experiments.filter(e => selectedIds.has(e.id));
+  const newestFirst = [...experiments].reverse();
+
+  const differingColumns = new Set(
+    COLUMNS
+      .filter(column => new Set(selected.map(column.value)).size > 1)
+      .map(column => column.label)
+  );
+
+  const toggle = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const rename = (experiment: Experiment) => {
+    const name = prompt('实验名称', experiment.name)?.trim();
+    if (name) onRename(experiment.id, name);
+  };
+
+  const colorOf = (id: string) => COLORS[experiments.findIndex(e => e.id === id) % COLORS.length];
+  const isAccuracy = metric === 'acc' || metric === 'valAcc';
+
+  const chartData = {
+    datasets: selected.map(e => ({
+      label: e.name,
+      data: e.logs.flatMap(l => l[metric] === undefined ? [] : [{ x: l.epoch + 1, y: l[metric]! }]),
+      borderColor: colorOf(e.id),
+      backgroundColor: colorOf(e.id),
+      borderWidth: 2,
+      pointRadius: 2,
+    })),
+  };
+
+  const options: ChartOptions<'line'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: {
+      mode: 'nearest' as const,
+      axis: 'x' as const,
+      intersect: false,
+    },
+    plugins: {
+      legend: { position: 'top' as const, labels: { boxWidth: 12 } },
+    },
+    scales: {
+      x: {
+        type: 'linear' as const,
+        min: 0,
+        title: { display: true, text: 'Epoch' },
+        ticks: { precision: 0 },
+      },
+      y: {
+        type: 'linear' as const,
+        ...(isAccuracy ? { max: 1 } : { min: 0 }),
+        title: { display: true, text: METRIC_LABELS[metric] },
+      },
+    },
+    animation: { duration: 0 },
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-md mt-6">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-bold text-gray-800">7. 实验记录 (Experiments)</h3>
+        <span className="text-xs text-gray-500">共 {experiments.length} 次实验，保存在本机浏览器中</span>
+      </div>
+
+      {experiments.length === 0 ? (
+        <p className="text-sm text-gray-400">
+          每训练一次，这里就会记下这次用的结构、训练参数和学习曲线。换个设置再训练一次，就能把两次实验放在一起比较。
+        </p>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs whitespace-nowrap">
+              <thead>
+                <tr className="text-gray-500 border-b">
+                  <th className="py-1"></th>
+                  <th className="text-left">名称</th>
+                  <th className="text-left">时间</th>
+                  {COLUMNS.map(column => <th key={column.label} className="text-left px-1">{column.label}</th>)}
+                  <th className="text-right px-1">验证准确率</th>
+                  <th className="text-right px-1">测试准确率</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {newestFirst.map(e => {
+                  const isSelected = selectedIds.has(e.id);
+                  // Test accuracy measured before the model was trained further
+                  const isTestStale = e.testAccuracy !== null && e.testEpochs !== e.startEpoch + e.logs.length;
+                  return (
+                    <tr key={e.id} className={`border-b border-gray-50 ${e.id === currentId ? 'bg-indigo-50' : ''}`}>
+                      <td className="py-0.5 pr-1">
+                        <input type="checkbox" checked={isSelected} onChange={() => toggle(e.id)} />
+                      </td>
+                      <td>
+                        <button
+                          onClick={() => rename(e)}
+                          title="点击重命名"
+                          className="font-bold hover:underline"
+                          style={{ color: colorOf(e.id) }}
+                        >
+                          {e.name}
+                        </button>
+                        {e.id === currentId && <span className="ml-1 text-[10px] text-indigo-500">当前</span>}
+                      </td>
+                      <td className="text-gray-400 pr-1">{new Date(e.createdAt).toLocaleString()}</td>
+                      {COLUMNS.map(column => (
+                        <td
+                          key={column.label}
+                          className={`px-1 ${isSelected && differingColumns.has(column.label) ? 'bg-yellow-100 font-bold' : ''}`}
+                        >
+                          {column.value(e)}
+                        </td>
+                      ))}
+                      <td className="text-right px-1">{percent(lastValue(e.logs, 'valAcc'))}</td>
+                      <td
+                        className={`text-right px-1 ${isTestStale ? 'text-gray-400' : 'text-purple-600 font-bold'}`}
+                        title={isTestStale ? `在第 ${e.testEpochs} 轮后测得` : undefined}
+                      >
+                        {percent(e.testAccuracy ?? undefined)}
+                      </td>
+                      <td className="pl-1">
+                        <button
+                          onClick={() => {
+                            if (confirm(`确定要删除实验“${e.name}”吗？`)) onDelete(e.id);
+                          }}
+                          disabled={disabled}
+                          className="text-red-500 hover:text-red-700 disabled:opacity-50"
+                        >
+                          删除
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center justify-between mt-4 mb-1">
+            <p className="text-xs text-gray-500">
+              勾选两次或更多实验，把它们的曲线画在一起；黄色标出它们设置不同的地方。
+            </p>
+            <select
+              value={metric}
+              onChange={(e) => setMetric(e.target.value as Metric)}
+              className="border rounded px-2 py-1 text-sm"
+            >
+              {(Object.keys(METRIC_LABELS) as Metric[]).map(m => <option key={m} value={m}>{METRIC_LABELS[m]}</option>)}
+            </select>
+          </div>
+          {selected.length === 0 ? (
+            <p className="text-sm text-gray-400 h-24 flex items-center justify-center border border-dashed rounded">还没有勾选实验</p>
+          ) : (
+            <div className="h-64 w-full border border-gray-100 rounded p-2">
+              <Line options={options} data={chartData} />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,238 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import * as tf from '@tensorflow/tfjs';
+import {
+  DEFAULT_OCCLUSION,
+  ExplanationMethod,
+  OcclusionOptions,
+  explainPrediction,
+  heatmapToDataUrl,
+  occlusionSensitivity,
+} from '../../utils/explanations';
+import { imageDataToPixels, pixelsToDataUrl } from '../../utils/cnn-model';
+
+interface ExplanationPanelProps {
+  model: tf.LayersModel | null;
+  image: ImageData | null;          // The preprocessed image that was predicted
+  probabilities: number[] | null;
+  classNames: string[];
+  imageShape: [number, number, number];
+  version: number;                  // Changes whenever the model's weights do
+}
+
+// Occlusion needs no gradients, only predictions
+type Method = ExplanationMethod | 'occlusion';
+
+const METHODS: { id: Method; label: string; desc: string }[] = [
+  {
+    id: 'occlusion',
+    label: '遮挡 (Occlusion)',
+    desc: '用灰色方块依次挡住图片的每个位置，看该类别的概率下降多少。挡住后下降越多，说明那里越重要。',
+  },
+  {
+    id: 'saliency',
+    label: '显著图 (Saliency)',
+    desc: '每个像素的梯度：这个像素稍微变一点，该类别的得分会变多少。',
+  },
+  {
+    id: 'smoothgrad',
+    label: 'SmoothGrad',
+    desc: '给图片加上随机噪声算很多次梯度再取平均，比显著图更干净。',
+  },
+  {
+    id: 'gradcam',
+    label: 'Grad-CAM',
+    desc: '看最后一个卷积层：哪些特征图对该类别最重要，它们在图片的哪个位置被激活。',
+  },
+];
+
+const OCCLUSION_SLIDERS: { key: keyof OcclusionOptions; label: string; min: number; max: number; step: number }[] = [
+  { key: 'patchSize', label: '方块大小', min: 2, max: 14, step: 1 },
+  { key: 'stride', label: '移动步长', min: 1, max: 7, step: 1 },
+  { key: 'fill', label: '方块灰度', min: 0, max: 1, step: 0.1 },
+];
+
+interface Heatmap {
+  src: string;
+  maxDrop?: number; // Occlusion only: largest probability drop, before scaling for display
+}
+
+interface HeatmapViewProps {
+  inputSrc: string;
+  heatmap: Heatmap | null;
+  opacity: number;
+  caption: React.ReactNode;
+}
+
+const HeatmapView: React.FC<HeatmapViewProps> = ({ inputSrc, heatmap, opacity, caption }) => (
+  <div className="flex flex-col items-center">
+    <div className="relative w-40 h-40 bg-black border border-gray-300">
+      <img src={inputSrc} alt="输入图片" className="absolute inset-0 w-full h-full" style={{ imageRendering: 'pixelated' }} />
+      {heatmap && (
+        <img src={heatmap.src} alt="热力图" className="absolute inset-0 w-full h-full" style={{ opacity, imageRendering: 'pixelated' }} />
+      )}
+    </div>
+    <p className="text-xs text-gray-600 mt-1">{caption}</p>
+    {heatmap?.maxDrop !== undefined && (
+      <p className="text-[10px] text-gray-400">最多下降 {(heatmap.maxDrop * 100).toFixed(1)} 个百分点</p>
+    )}
+  </div>
+);
+
+export const ExplanationPanel: React.FC<ExplanationPanelProps> = ({
+  model,
+  image,
+  probabilities,
+  classNames,
+  imageShape,
+  version
+}) => {
+  const [method, setMethod] = useState<Method>('occlusion');
+  const [occlusion, setOcclusion] = useState<OcclusionOptions>(DEFAULT_OCCLUSION);
+  const [selectedClass, setSelectedClass] = useState<number | null>(null);
+  const [opacity, setOpacity] = useState(0.7);
+  const [heatmaps, setHeatmaps] = useState<{ predicted: Heatmap; selected: Heatmap | null } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const [height, width, channels] = imageShape;
+  const predictedClass = probabilities ? probabilities.indexOf(Math.max(...probabilities)) : null;
+  // A new prediction starts from the predicted class again
+  useEffect(() => setSelectedClass(null), [image]);
+  const comparedClass = selectedClass !== null && selectedClass !== predictedClass ? selectedClass : null;
+
+  const inputSrc = useMemo(
+    () => image ? pixelsToDataUrl(imageDataToPixels(image, channels), imageShape) : null,
+    [image, channels, imageShape]
+  );
+
+  useEffect(() => {
+    if (!model || !image || predictedClass === null) {
+      setHeatmaps(null);
+      return;
+    }
+    try {
+      const render = (cls: number): Heatmap => {
+        if (method !== 'occlusion') {
+          return { src: heatmapToDataUrl(explainPrediction(model, image, cls, method), width, height) };
+        }
+        // Drops are often small, so the colours are scaled to the largest one
+        const drops = occlusionSensitivity(model, image, cls, occlusion);
+        const maxDrop = drops.reduce((max, v) => Math.max(max, v), 0);
+        return { src: heatmapToDataUrl(drops.map(v => maxDrop > 0 ? v / maxDrop : 0), width, height), maxDrop };
+      };
+      setHeatmaps({
+        predicted: render(predictedClass),
+        selected: comparedClass !== null ? render(comparedClass) : null,
+      });
+      setError(null);
+    } catch (err) {
+      console.error("Explanation failed", err);
+      setHeatmaps(null);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, [model, image, predictedClass, comparedClass, method, occlusion, version, width, height]);
+
+  const methodInfo = METHODS.find(m => m.id === method)!;
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-md mt-6">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-bold text-gray-800">4. 为什么这样预测 (Why?)</h3>
+        <div className="flex gap-1 text-xs">
+          {METHODS.map(m => (
+            <button
+              key={m.id}
+              onClick={() => setMethod(m.id)}
+              className={`px-2 py-1 rounded ${method === m.id ? 'bg-gray-700 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!image || !inputSrc || !probabilities || predictedClass === null ? (
+        <p className="text-sm text-gray-400">
+          画一张图并点击“识别”后，这里会用热力图标出 AI 做判断时最看重的区域。
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 flex flex-wrap gap-6 justify-center">
+            <HeatmapView
+              inputSrc={inputSrc}
+              heatmap={heatmaps?.predicted ?? null}
+              opacity={opacity}
+              caption={<>为什么是 <b className="text-indigo-600">{classNames[predictedClass]}</b>（{(probabilities[predictedClass] * 100).toFixed(1)}%）</>}
+            />
+            {comparedClass !== null && (
+              <HeatmapView
+                inputSrc={inputSrc}
+                heatmap={heatmaps?.selected ?? null}
+                opacity={opacity}
+                caption={<>如果是 <b className="text-orange-600">{classNames[comparedClass]}</b>（{(probabilities[comparedClass] * 100).toFixed(1)}%）</>}
+              />
+            )}
+          </div>
+
+          <div className="text-sm">
+            <p className="text-xs text-gray-500 mb-2">{methodInfo.desc} 越红的地方越重要。</p>
+            {error && <p className="text-xs text-red-500 mb-2">无法计算：{error}</p>}
+
+            {method === 'occlusion' && (
+              <div className="space-y-1 text-xs mb-3">
+                {OCCLUSION_SLIDERS.map(({ key, label, min, max, step }) => (
+                  <label key={key} className="flex items-center gap-2">
+                    <span className="w-16 shrink-0 text-gray-600">{label}</span>
+                    <input
+                      type="range"
+                      min={min}
+                      max={max}
+                      step={step}
+                      value={occlusion[key]}
+                      onChange={(e) => setOcclusion(prev => ({ ...prev, [key]: Number(e.target.value) }))}
+                      className="flex-1"
+                    />
+                    <span className="w-10 text-right text-gray-500">{key === 'fill' ? occlusion.fill.toFixed(1) : `${occlusion[key]} px`}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+
+            <p className="text-xs text-gray-600 mb-1">对比另一个类别：为什么是它，而不是……？</p>
+            <div className="flex flex-wrap gap-1 mb-3">
+              {classNames.map((name, cls) => (
+                <button
+                  key={cls}
+                  onClick={() => setSelectedClass(cls === selectedClass ? null : cls)}
+                  disabled={cls === predictedClass}
+                  title={`${name}：${(probabilities[cls] * 100).toFixed(1)}%`}
+                  className={`px-2 py-0.5 rounded text-xs border ${
+                    cls === predictedClass
+                      ? 'border-indigo-300 bg-indigo-50 text-indigo-600'
+                      : cls === comparedClass
+                        ? 'border-orange-400 bg-orange-100 text-orange-700'
+                        : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  {name}
+                </button>
+              ))}
+            </div>
+
+            <label className="flex items-center gap-2 text-xs text-gray-500">
+              热力图透明度
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={opacity}
+                onChange={(e) => setOpacity(Number(e.target.value))}
+                className="flex-1"
+              />
+            </label>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,294 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as tf from '@tensorflow/tfjs';
+import { ReceptiveFieldView } from './ReceptiveFieldView';
+import { FeatureMaps } from '../../utils/cnn-model';
+import {
+  COLOR_MAPS,
+  ColorMapName,
+  Normalization,
+  colorize,
+  drawFeatureMap,
+  featureValue,
+  getChannelStats,
+  getColorRange,
+  getHistogram,
+} from '../../utils/feature-maps';
+
+interface FeatureMapViewerProps {
+  maps: FeatureMaps;
+  layerName: string;
+  model?: tf.LayersModel | null;  // With the input image, enables the receptive-field view
+  inputImage?: ImageData | null;
+}
+
+const HISTOGRAM_BINS = 20;
+
+type Hover = { channel: number; y: number; x: number } | null;
+type Position = { y: number; x: number };
+
+interface FeatureMapCanvasProps {
+  maps: FeatureMaps;
+  channel: number;
+  range: [number, number];
+  colorMap: ColorMapName;
+  hover: Hover;
+  onHover: (hover: Hover) => void;
+  onPixelClick?: (position: Position) => void;
+  picked?: Position | null; // Outlined, e.g. the pixel whose receptive field is shown
+  className?: string;
+}
+
+// One channel, with the exact value of the hovered position in a tooltip
+const FeatureMapCanvas: React.FC<FeatureMapCanvasProps> = ({ maps, channel, range, colorMap, hover, onHover, onPixelClick, picked, className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [h, w] = maps.shape;
+
+  useEffect(() => {
+    if (canvasRef.current) drawFeatureMap(canvasRef.current, maps, channel, range, colorMap);
+  }, [maps, channel, range, colorMap]);
+
+  const positionAt = (e: React.MouseEvent<HTMLCanvasElement>): Position => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(w - 1, Math.floor(((e.clientX - rect.left) / rect.width) * w)),
+      y: Math.min(h - 1, Math.floor(((e.clientY - rect.top) / rect.height) * h)),
+    };
+  };
+
+  const isHovered = hover?.channel === channel;
+
+  return (
+    <div className="relative">
+      <canvas
+        ref={canvasRef}
+        onMouseMove={(e) => onHover({ channel, ...positionAt(e) })}
+        onMouseLeave={() => onHover(null)}
+        onClick={onPixelClick && ((e) => onPixelClick(positionAt(e)))}
+        className={`w-full aspect-square border border-gray-300 cursor-crosshair ${className ?? ''}`}
+        style={{ imageRendering: 'pixelated' }}
+      />
+      {picked && (
+        <div
+          className="absolute border-2 border-yellow-400 pointer-events-none"
+          style={{
+            top: `${(picked.y / h) * 100}%`,
+            left: `${(picked.x / w) * 100}%`,
+            width: `${100 / w}%`,
+            height: `${100 / h}%`,
+          }}
+        />
+      )}
+      {isHovered && (
+        <div className="absolute left-0 top-0 bg-black/75 text-white text-[10px] px-1 rounded pointer-events-none whitespace-nowrap z-10">
+          ({hover.y + 1}, {hover.x + 1}) = {featureValue(maps, channel, hover.y, hover.x).toFixed(3)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const FeatureMapViewer: React.FC<FeatureMapViewerProps> = ({ maps, layerName, model, inputImage }) => {
+  const [normalization, setNormalization] = useState<Normalization>('map');
+  const [colorMap, setColorMap] = useState<ColorMapName>('gray');
+  const [selected, setSelected] = useState<number | null>(null);
+  const [picked, setPicked] = useState<Position | null>(null);
+  const [hover, setHover] = useState<Hover>(null);
+  const [showStats, setShowStats] = useState(false);
+
+  const [h, w, channels] = maps.shape;
+  const stats = useMemo(() => Array.from({ length: channels }, (_, c) => getChannelStats(maps, c)), [maps, channels]);
+  const ranges = useMemo(
+    () => stats.map((_, c) => getColorRange(stats, c, normalization)),
+    [stats, normalization]
+  );
+  const histograms = useMemo(
+    () => stats.map((s, c) => getHistogram(maps, c, s.min, s.max, HISTOGRAM_BINS)),
+    [maps, stats]
+  );
+
+  // Same size, new image: keep the zoomed map and pixel; a smaller layer may not have them
+  useEffect(() => {
+    setSelected(s => s !== null && s < channels ? s : null);
+    setPicked(p => p && p.y < h && p.x < w ? p : null);
+  }, [channels, h, w]);
+
+  const closeZoom = () => {
+    setSelected(null);
+    setPicked(null);
+  };
+
+  // Gradient of the colour map, for the legend
+  const legend = (range: [number, number]) => {
+    const stops = Array.from({ length: 11 }, (_, i) => {
+      const v = range[0] + ((range[1] - range[0]) * i) / 10;
+      return `rgb(${colorize(v, range[0], range[1], colorMap).join(',')})`;
+    });
+    return (
+      <div className="flex items-center gap-1 text-[10px] text-gray-500">
+        <span>{range[0].toFixed(2)}</span>
+        <div className="h-2 w-24 rounded border border-gray-200" style={{ background: `linear-gradient(to right, ${stops.join(', ')})` }}></div>
+        <span>{range[1].toFixed(2)}</span>
+      </div>
+    );
+  };
+
+  const histogramBars = (channel: number, height: string) => {
+    const counts = histograms[channel];
+    const most = Math.max(...counts, 1);
+    const { min, max } = stats[channel];
+    const binWidth = (max - min) / HISTOGRAM_BINS;
+    return (
+      <div className={`flex items-end gap-px ${height}`}>
+        {counts.map((count, i) => (
+          <div
+            key={i}
+            className="flex-1 min-h-px"
+            style={{
+              height: `${(count / most) * 100}%`,
+              backgroundColor: `rgb(${colorize(min + binWidth * (i + 0.5), ...ranges[channel], colorMap).join(',')})`,
+              outline: '1px solid rgba(0,0,0,0.1)',
+            }}
+            title={`${(min + binWidth * i).toFixed(2)} ~ ${(min + binWidth * (i + 1)).toFixed(2)}：${count} 个位置`}
+          ></div>
+        ))}
+      </div>
+    );
+  };
+
+  const selectClass = "text-xs border rounded px-1 py-0.5";
+
+  return (
+    <div className="mt-4">
+      <h5 className="font-semibold text-sm text-gray-600 mb-2">特征图可视化 (Feature Maps):</h5>
+
+      {/* Settings */}
+      <div className="flex flex-wrap gap-x-4 gap-y-2 items-center text-xs text-gray-600 mb-2">
+        <label className="flex items-center gap-1">
+          缩放
+          <select value={normalization} onChange={(e) => setNormalization(e.target.value as Normalization)} className={selectClass}>
+            <option value="map">每张图单独</option>
+            <option value="layer">整层统一（可比较）</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          颜色
+          <select value={colorMap} onChange={(e) => setColorMap(e.target.value as ColorMapName)} className={selectClass}>
+            {COLOR_MAPS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={showStats} onChange={(e) => setShowStats(e.target.checked)} />
+          统计 (Stats)
+        </label>
+        {normalization === 'layer' && legend(ranges[0])}
+      </div>
+
+      {/* Zoomed map */}
+      {selected !== null && (
+        <div className="bg-white border rounded p-3 mb-3 flex gap-4 items-start">
+          <div className="w-40 flex-shrink-0">
+            <FeatureMapCanvas
+              maps={maps}
+              channel={selected}
+              range={ranges[selected]}
+              colorMap={colorMap}
+              hover={hover}
+              onHover={setHover}
+              onPixelClick={setPicked}
+              picked={picked}
+            />
+          </div>
+          <div className="flex-1 text-xs text-gray-600">
+            <div className="flex justify-between items-center mb-2">
+              <span className="font-bold text-gray-700">特征图 #{selected + 1}（{h}x{w}）</span>
+              <button onClick={closeZoom} className="text-gray-400 hover:text-gray-600">关闭 ✕</button>
+            </div>
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1 mb-2">
+              <span>最小值：{stats[selected].min.toFixed(3)}</span>
+              <span>最大值：{stats[selected].max.toFixed(3)}</span>
+              <span>平均值：{stats[selected].mean.toFixed(3)}</span>
+              <span>激活比例 (&gt;0)：{(stats[selected].activeFraction * 100).toFixed(0)}%</span>
+            </div>
+            {histogramBars(selected, 'h-16')}
+            <div className="flex justify-between text-[10px] text-gray-400 mt-0.5">
+              <span>{stats[selected].min.toFixed(2)}</span>
+              <span>数值分布 (Histogram)</span>
+              <span>{stats[selected].max.toFixed(2)}</span>
+            </div>
+            {normalization === 'map' && <div className="mt-2">{legend(ranges[selected])}</div>}
+            {picked && model && inputImage ? (
+              <ReceptiveFieldView
+                model={model}
+                layerName={layerName}
+                image={inputImage}
+                y={picked.y}
+                x={picked.x}
+                value={featureValue(maps, selected, picked.y, picked.x)}
+              />
+            ) : model && inputImage && (
+              <p className="border-t mt-3 pt-2 text-gray-500">点击左边放大图中的一个像素，查看它在输入图片中“看到”的区域（感受野）。</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className={`grid gap-2 ${channels > 8 ? 'grid-cols-8' : 'grid-cols-4'}`}>
+        {Array.from({ length: channels }, (_, c) => (
+          <div key={c} className="flex flex-col items-center">
+            <FeatureMapCanvas
+              maps={maps}
+              channel={c}
+              range={ranges[c]}
+              colorMap={colorMap}
+              hover={hover}
+              onHover={setHover}
+              onPixelClick={(position) => {
+                setSelected(c);
+                setPicked(position);
+              }}
+              picked={c === selected ? picked : null}
+              className={c === selected ? 'ring-2 ring-blue-500' : ''}
+            />
+            <span className="text-[10px] text-gray-500">#{c + 1}</span>
+          </div>
+        ))}
+      </div>
+
+      {showStats && (
+        <table className="w-full text-[10px] text-gray-600 bg-white border rounded mt-3">
+          <thead>
+            <tr className="text-gray-500 border-b">
+              <th className="p-1 text-left">特征图</th>
+              <th className="p-1 text-right">最小</th>
+              <th className="p-1 text-right">最大</th>
+              <th className="p-1 text-right">平均</th>
+              <th className="p-1 text-right">激活比例</th>
+              <th className="p-1 w-24">分布</th>
+            </tr>
+          </thead>
+          <tbody>
+            {stats.map((s, c) => (
+              <tr
+                key={c}
+                onClick={() => setSelected(c)}
+                className={`border-b border-gray-100 cursor-pointer hover:bg-gray-50 ${c === selected ? 'bg-blue-50' : ''}`}
+              >
+                <td className="p-1">#{c + 1}</td>
+                <td className="p-1 text-right">{s.min.toFixed(2)}</td>
+                <td className="p-1 text-right">{s.max.toFixed(2)}</td>
+                <td className="p-1 text-right">{s.mean.toFixed(2)}</td>
+                <td className="p-1 text-right">{(s.activeFraction * 100).toFixed(0)}%</td>
+                <td className="p-1">{histogramBars(c, 'h-4')}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <p className="text-xs text-gray-500 mt-2">
+        * 这些是该层“看到”的图像特征。鼠标悬停可查看具体数值，点击一张图的某个像素可放大该图、查看统计和这个像素的感受野。
+        {normalization === 'map' ? '每张图按自己的最小/最大值着色，亮度不能跨图比较。' : '整层使用同一个色标，越亮说明激活越强。'}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useEffect, useRef, useState } from 'react';
+import * as tf from '@tensorflow/tfjs';
+import { getUnitCount, maximizeActivation } from '../../utils/activation-maximization';
+import { getModelInputShape, pixelsToDataUrl } from '../../utils/cnn-model';
+
+interface IdealInputViewProps {
+  model: tf.LayersModel;
+  layerName: string;
+  classNames?: string[]; // Set for the output layer, whose units are classes
+}
+
+// Larger layers take proportionally longer; the first filters are enough to
+// see the idea
+const MAX_UNITS = 32;
+
+export const IdealInputView: React.FC<IdealInputViewProps> = ({ model, layerName, classNames }) => {
+  const [images, setImages] = useState<string[] | null>(null);
+  const [progress, setProgress] = useState<number | null>(null); // 0-100 while running
+  const abortRef = useRef<AbortController | null>(null);
+
+  const unitCount = Math.min(getUnitCount(model, layerName), MAX_UNITS);
+  const totalUnits = getUnitCount(model, layerName);
+
+  // Results belong to one layer of one model
+  useEffect(() => {
+    setImages(null);
+    return () => {
+      abortRef.current?.abort();
+      abortRef.current = null;
+      setProgress(null);
+    };
+  }, [model, layerName]);
+
+  const handleGenerate = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress(0);
+    try {
+      const units = Array.from({ length: unitCount }, (_, i) => i);
+      const result = await maximizeActivation(
+        model,
+        layerName,
+        units,
+        (step, total) => setProgress((step / total) * 100),
+        controller.signal
+      );
+      if (!result) return;
+      const shape = getModelInputShape(model);
+      setImages(result.map(image => pixelsToDataUrl(Uint8Array.from(image, v => Math.round(v * 255)), shape)));
+    } catch (err) {
+      console.error("Activation maximization failed", err);
+      alert(`操作失败：${err instanceof Error ? err.message : err}`);
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center justify-between mb-2">
+        <h5 className="font-semibold text-sm text-gray-600">理想输入 (Ideal Inputs):</h5>
+        <button
+          onClick={handleGenerate}
+          disabled={progress !== null}
+          className="px-2 py-1 text-xs bg-indigo-100 text-indigo-700 rounded hover:bg-indigo-200 disabled:opacity-50"
+        >
+          {progress !== null ? `生成中... ${Math.round(progress)}%` : images ? '重新生成' : '生成 (Generate)'}
+        </button>
+      </div>
+
+      {progress !== null && (
+        <div className="w-full bg-gray-200 rounded-full h-1.5 mb-2">
+          <div className="bg-indigo-500 h-1.5 rounded-full" style={{ width: `${progress}%` }}></div>
+        </div>
+      )}
+
+      {images ? (
+        <div className="grid grid-cols-4 gap-2">
+          {images.map((src, i) => (
+            <div key={i} className="flex flex-col items-center">
+              <img
+                src={src}
+                alt={classNames ? classNames[i] : `卷积核 ${i + 1}`}
+                className="w-full aspect-square bg-black border border-gray-300"
+                style={{ imageRendering: 'pixelated' }}
+              />
+              <span className="text-[10px] text-gray-500 truncate max-w-full">{classNames ? classNames[i] : `#${i + 1}`}</span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">
+          从随机噪声出发，不断修改输入图片，让{classNames ? '每个类别的得分' : '每个卷积核的激活'}尽可能大，
+          得到的图片就是它最“喜欢”的图案。训练后的模型效果更明显。
+        </p>
+      )}
+      {images && unitCount < totalUnits && (
+        <p className="text-xs text-gray-400 mt-1">* 只显示前 {unitCount} 个（共 {totalUnits} 个）</p>
+      )}
+    </div>
+  );
+};
@@ -3,12 +3,40 @@ import React, { useRef, useState, useEffect } from 'react';
 interface InputPanelProps {
   onImageReady: (imageData: ImageData) => void;
   disabled?: boolean;
+  imageShape: [number, number, number]; // [height, width, channels] of the dataset
+  inputStyle: 'strokes' | 'photo';
+  hint: string;
+  // 'collect': every drawing can be saved with a label into the custom dataset
+  mode: InputMode;
+  onModeChange: (mode: InputMode) => void;
+  classNames: string[];
+  onAddSample: (label: number) => Promise<void>;
+  // An image chosen elsewhere (e.g. a test image from the mistakes gallery),
+  // shown on the canvas in place of the drawing
+  displayImage?: ImageData | null;
 }
 
-export const InputPanel: React.FC<InputPanelProps> = ({ onImageReady, disabled }) => {
+export type InputMode = 'predict' | 'collect';
+
+export const InputPanel: React.FC<InputPanelProps> = ({
+  onImageReady,
+  disabled,
+  imageShape,
+  inputStyle,
+  hint,
+  mode,
+  onModeChange,
+  classNames,
+  onAddSample,
+  displayImage
+}) => {
+  const [height, width, channels] = imageShape;
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const previewRef = useRef<HTMLCanvasElement>(null);
   const [isDrawing, setIsDrawing] = useState(false);
+  const [hasDrawing, setHasDrawing] = useState(false);
+  const [sampleLabel, setSampleLabel] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
 
   useEffect(() => {
     // Initialize canvas with white background
@@ -23,6 +51,19 @@ export const InputPanel: React.FC<InputPanelProps> = ({ onImageReady, disabled }
     }
   }, []);
 
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const preview = previewRef.current;
+    const ctx = canvas?.getContext('2d');
+    const previewCtx = preview?.getContext('2d');
+    if (!displayImage || !canvas || !preview || !ctx || !previewCtx) return;
+    previewCtx.putImageData(displayImage, 0, 0);
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(preview, 0, 0, canvas.width, canvas.height);
+    ctx.beginPath();
+    setHasDrawing(true);
+  }, [displayImage]);
+
   const startDrawing = (e: React.MouseEvent | React.TouchEvent) => {
     if (disabled) return;
     setIsDrawing(true);
@@ -30,7 +71,9 @@ export const InputPanel: React.FC<InputPanelProps> = ({ onImageReady, disabled }
   };
 
   const stopDrawing = () => {
+    if (!isDrawing) return;
     setIsDrawing(false);
+    setHasDrawing(true);
     updatePreview();
   };
 
@@ -68,10 +111,24 @@ export const InputPanel: React.FC<InputPanelProps> = ({ onImageReady, disabled }
       ctx.fillStyle = 'black';
       ctx.fillRect(0, 0, canvas.width, canvas.height);
       ctx.beginPath();
+      setHasDrawing(false);
       updatePreview();
     }
   };
 
+  const handleAddSample = async () => {
+    setIsSaving(true);
+    try {
+      await onAddSample(sampleLabel);
+      clearCanvas();
+    } catch (err) {
+      console.error("Failed to save sample", err);
+      alert(`保存样本失败：${err instanceof Error ? err.message : err}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   const updatePreview = () => {
     const canvas = canvasRef.current;
     const preview = previewRef.current;
@@ -81,10 +138,10 @@ export const InputPanel: React.FC<InputPanelProps> = ({ onImageReady, disabled }
     if (!ctx) return;
 
     // Draw scaled down version
-    ctx.drawImage(canvas, 0, 0, 28, 28);
+    ctx.drawImage(canvas, 0, 0, width, height);
     
     // Get image data
-    const imageData = ctx.getImageData(0, 0, 28, 28);
+    const imageData = ctx.getImageData(0, 0, width, height);
     onImageReady(imageData);
   };
 
@@ -99,11 +156,14 @@ export const InputPanel: React.FC<InputPanelProps> = ({ onImageReady, disabled }
         if (canvas && ctx) {
             ctx.fillStyle = 'black';
             ctx.fillRect(0, 0, canvas.width, canvas.height);
-            // Draw image centered and scaled to fit
-            const scale = Math.min(canvas.width / img.width, canvas.height / img.height);
+            // Strokes are scaled to fit inside the canvas; photos fill it
+            // (cropping the edges) like the dataset's own images
+            const fit = inputStyle === 'photo' ? Math.max : Math.min;
+            const scale = fit(canvas.width / img.width, canvas.height / img.height);
             const x = (canvas.width - img.width * scale) / 2;
             const y = (canvas.height - img.height * scale) / 2;
             ctx.drawImage(img, x, y, img.width * scale, img.height * scale);
+            setHasDrawing(true);
             updatePreview();
         }
     };
@@ -112,7 +172,20 @@ export const InputPanel: React.FC<InputPanelProps> = ({ onImageReady, disabled }
 
   return (
     <div className="bg-white p-4 rounded-lg shadow-md">
-      <h3 className="text-lg font-bold mb-4 text-gray-800">1. 图片输入 (Input)</h3>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-bold text-gray-800">1. 图片输入 (Input)</h3>
+        <div className="flex text-xs rounded overflow-hidden border border-indigo-200">
+          {(['predict', 'collect'] as InputMode[]).map(m => (
+            <button
+              key={m}
+              onClick={() => onModeChange(m)}
+              className={`px-2 py-1 ${mode === m ? 'bg-indigo-600 text-white' : 'bg-white text-indigo-600 hover:bg-indigo-50'}`}
+            >
+              {m === 'predict' ? '识别' : '采集 (Collect)'}
+            </button>
+          ))}
+        </div>
+      </div>
       <div className="flex flex-col items-center gap-4">
         <div className="relative">
             <canvas
@@ -128,7 +201,7 @@ export const InputPanel: React.FC<InputPanelProps> = ({ onImageReady, disabled }
             onTouchEnd={stopDrawing}
             onTouchMove={draw}
             />
-            <p className="text-xs text-gray-500 mt-1 text-center">请在此处手写数字 0-9</p>
+            <p className="text-xs text-gray-500 mt-1 text-center">{hint}</p>
         </div>
 
         <div className="flex gap-2 w-full justify-center">
@@ -148,16 +221,36 @@ export const InputPanel: React.FC<InputPanelProps> = ({ onImageReady, disabled }
         <div className="flex items-center gap-4 mt-2 p-3 bg-gray-50 rounded-lg w-full">
             <div className="text-sm text-gray-600">
                 <p className="font-semibold">预处理结果</p>
-                <p className="text-xs">28x28 像素</p>
+                <p className="text-xs">{width}x{height} 像素 · {channels === 3 ? '彩色' : '灰度'}</p>
             </div>
             <canvas 
                 ref={previewRef} 
-                width={28} 
-                height={28} 
+                width={width} 
+                height={height} 
                 className="border border-gray-400 w-14 h-14 rendering-pixelated bg-black"
                 style={{ imageRendering: 'pixelated' }}
             />
         </div>
+
+        {mode === 'collect' && (
+          <div className="flex items-center gap-2 w-full p-3 bg-indigo-50 rounded-lg border border-indigo-100 text-sm">
+            <span className="text-gray-700">标签 (Label)</span>
+            <select
+              value={sampleLabel}
+              onChange={(e) => setSampleLabel(Number(e.target.value))}
+              className="border rounded px-2 py-1 bg-white"
+            >
+              {classNames.map((name, i) => <option key={i} value={i}>{name}</option>)}
+            </select>
+            <button
+              onClick={handleAddSample}
+              disabled={!hasDrawing || isSaving}
+              className="flex-1 px-3 py-1 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50"
+            >
+              保存样本 (Add)
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
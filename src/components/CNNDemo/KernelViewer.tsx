@@ -0,0 +1,161 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as tf from '@tensorflow/tfjs';
+import { ConvKernels, KernelSnapshot, getConvKernels, kernelValue } from '../../utils/cnn-model';
+
+interface KernelViewerProps {
+  model: tf.LayersModel;
+  layerName: string;
+  snapshots: KernelSnapshot[];
+  version: number; // Changes whenever the model's weights do
+}
+
+// Wide layers are cut to keep the grid readable
+const MAX_FILTERS = 64;
+const MAX_CHANNELS = 16;
+const PLAY_INTERVAL_MS = 400;
+
+// Diverging scale, as in ConvAnimation: red for negative weights, white for 0,
+// blue for positive
+function weightColor(v: number, scale: number): [number, number, number] {
+  const t = Math.max(-1, Math.min(1, v / scale));
+  const [r, g, b] = t < 0 ? [239, 68, 68] : [59, 130, 246];
+  const a = Math.abs(t);
+  return [255 + (r - 255) * a, 255 + (g - 255) * a, 255 + (b - 255) * a];
+}
+
+// One row per filter, one kernel per input channel, with 1px gaps
+function drawKernels(canvas: HTMLCanvasElement, kernels: ConvKernels, scale: number) {
+  const [kh, kw, inChannels, filters] = kernels.shape;
+  const rows = Math.min(filters, MAX_FILTERS);
+  const cols = Math.min(inChannels, MAX_CHANNELS);
+  canvas.width = cols * (kw + 1) - 1;
+  canvas.height = rows * (kh + 1) - 1;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const image = ctx.createImageData(canvas.width, canvas.height);
+  image.data.fill(255);
+  for (let f = 0; f < rows; f++) {
+    for (let ch = 0; ch < cols; ch++) {
+      for (let i = 0; i < kh; i++) {
+        for (let j = 0; j < kw; j++) {
+          const x = ch * (kw + 1) + j;
+          const y = f * (kh + 1) + i;
+          const offset = (y * canvas.width + x) * 4;
+          const [r, g, b] = weightColor(kernelValue(kernels, f, ch, i, j), scale);
+          image.data[offset] = r;
+          image.data[offset + 1] = g;
+          image.data[offset + 2] = b;
+        }
+      }
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+}
+
+export const KernelViewer: React.FC<KernelViewerProps> = ({ model, layerName, snapshots, version }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [frameIndex, setFrameIndex] = useState<number | null>(null); // null follows the latest epoch
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const live = useMemo(() => getConvKernels(model, layerName), [model, layerName, version]);
+
+  // Before the first training run there are no snapshots; show the live weights
+  const frames = useMemo(() => {
+    const recorded = snapshots.flatMap(s => s.layers[layerName] ? [{ epoch: s.epoch, kernels: s.layers[layerName] }] : []);
+    return recorded.length > 0 || !live ? recorded : [{ epoch: 0, kernels: live }];
+  }, [snapshots, layerName, live]);
+
+  // One colour scale for every frame, so growing weights look stronger
+  const scale = useMemo(() => {
+    let max = 1e-6;
+    for (const { kernels } of frames) {
+      for (const v of kernels.kernel) max = Math.max(max, Math.abs(v));
+    }
+    return max;
+  }, [frames]);
+
+  const index = frameIndex === null ? frames.length - 1 : Math.min(frameIndex, frames.length - 1);
+  const frame = frames[index];
+
+  useEffect(() => {
+    setFrameIndex(null);
+    setIsPlaying(false);
+  }, [layerName, model]);
+
+  useEffect(() => {
+    if (canvasRef.current && frame) drawKernels(canvasRef.current, frame.kernels, scale);
+  }, [frame, scale]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = window.setInterval(() => {
+      setFrameIndex(prev => {
+        const next = (prev ?? frames.length - 1) + 1;
+        if (next >= frames.length) {
+          setIsPlaying(false);
+          return null;
+        }
+        return next;
+      });
+    }, PLAY_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isPlaying, frames.length]);
+
+  if (!frame) return null;
+  const [kh, kw, inChannels, filters] = frame.kernels.shape;
+  const pixelSize = Math.max(2, Math.min(8, Math.floor(240 / (Math.min(inChannels, MAX_CHANNELS) * (kw + 1)))));
+
+  return (
+    <div className="mt-4">
+      <h5 className="font-semibold text-sm text-gray-600 mb-1">卷积核 (Kernels):</h5>
+      <p className="text-xs text-gray-500 mb-2">
+        {filters} 个 {kh}x{kw} 卷积核，每行一个，每列对应一个输入通道（共 {inChannels} 个）。
+      </p>
+
+      <canvas
+        ref={canvasRef}
+        className="border border-gray-300 bg-white"
+        style={{
+          imageRendering: 'pixelated',
+          width: (Math.min(inChannels, MAX_CHANNELS) * (kw + 1) - 1) * pixelSize,
+        }}
+      />
+      {(filters > MAX_FILTERS || inChannels > MAX_CHANNELS) && (
+        <p className="text-xs text-gray-400">* 只显示前 {Math.min(filters, MAX_FILTERS)} 个卷积核的前 {Math.min(inChannels, MAX_CHANNELS)} 个通道</p>
+      )}
+
+      <div className="flex items-center gap-1 text-[10px] text-gray-500 mt-1">
+        <span>-{scale.toFixed(2)}</span>
+        <div className="h-2 w-24 rounded" style={{ background: 'linear-gradient(to right, rgb(239,68,68), white, rgb(59,130,246))' }}></div>
+        <span>+{scale.toFixed(2)}</span>
+      </div>
+
+      {frames.length > 1 && (
+        <div className="flex items-center gap-2 text-xs text-gray-600 mt-2">
+          <button
+            onClick={() => {
+              if (!isPlaying && index === frames.length - 1) setFrameIndex(0);
+              setIsPlaying(p => !p);
+            }}
+            className="px-2 py-0.5 bg-indigo-100 text-indigo-700 rounded hover:bg-indigo-200"
+          >
+            {isPlaying ? '暂停' : '回放'}
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={frames.length - 1}
+            value={index}
+            onChange={(e) => {
+              setIsPlaying(false);
+              const i = Number(e.target.value);
+              setFrameIndex(i === frames.length - 1 ? null : i);
+            }}
+            className="flex-1"
+          />
+          <span className="w-20 text-right">{frame.epoch === 0 ? '初始（随机）' : `第 ${frame.epoch} 轮后`}</span>
+        </div>
+      )}
+    </div>
+  );
+};
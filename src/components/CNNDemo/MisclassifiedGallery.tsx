@@ -0,0 +1,122 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { EvaluationResult, getTestImagePixels } from '../../utils/evaluation';
+import { pixelsToDataUrl } from '../../utils/cnn-model';
+import { DatasetSource } from '../../utils/dataset-source';
+import { ProbabilityBars } from './ProbabilityBars';
+
+interface MisclassifiedGalleryProps {
+  data: DatasetSource;
+  result: EvaluationResult;
+  selectedIndex: number | null;     // Test image currently loaded as the input
+  probabilities: number[] | null;   // The current model's output for it
+  disabled?: boolean;
+  onSelect: (index: number) => void;
+}
+
+const PAGE_SIZE = 48;
+
+export const MisclassifiedGallery: React.FC<MisclassifiedGalleryProps> = ({
+  data,
+  result,
+  selectedIndex,
+  probabilities,
+  disabled,
+  onSelect
+}) => {
+  const { classNames, imageShape } = data.info;
+  const [trueClass, setTrueClass] = useState<number | 'all'>('all');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  // Most confident mistakes first: these are the most surprising ones
+  const mistakes = useMemo(() => {
+    const indices: number[] = [];
+    for (let i = 0; i < result.numExamples; i++) {
+      if (result.predictions[i] !== result.labels[i] && (trueClass === 'all' || result.labels[i] === trueClass)) {
+        indices.push(i);
+      }
+    }
+    return indices.sort((a, b) => result.confidences[b] - result.confidences[a]);
+  }, [result, trueClass]);
+
+  useEffect(() => {
+    setVisibleCount(PAGE_SIZE);
+  }, [result, trueClass]);
+
+  const thumbnails = useMemo(() => {
+    const splits = data.getSplits();
+    return mistakes.slice(0, visibleCount).map(index => ({
+      index,
+      src: pixelsToDataUrl(getTestImagePixels(splits, index), imageShape),
+    }));
+  }, [mistakes, visibleCount, data, imageShape]);
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-md mt-6">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-bold text-gray-800">6. 认错的图片 (Mistakes)</h3>
+        <label className="text-sm text-gray-600 flex items-center gap-2">
+          真实类别
+          <select
+            value={trueClass}
+            onChange={(e) => setTrueClass(e.target.value === 'all' ? 'all' : Number(e.target.value))}
+            className="border rounded px-2 py-1"
+          >
+            <option value="all">全部</option>
+            {classNames.map((name, i) => <option key={i} value={i}>{name}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <p className="text-xs text-gray-500 mb-2">
+        共 {mistakes.length} 张认错，按置信度从高到低排列。点击一张图片，把它作为输入，在上方查看特征图和卷积过程，找找 AI 认错的原因。
+      </p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="lg:col-span-2">
+          <div className="grid grid-cols-6 sm:grid-cols-8 gap-2 max-h-96 overflow-y-auto p-1">
+            {thumbnails.map(({ index, src }) => (
+              <button
+                key={index}
+                onClick={() => onSelect(index)}
+                disabled={disabled}
+                className={`flex flex-col items-center p-1 rounded border text-[10px] leading-tight ${selectedIndex === index ? 'border-indigo-500 bg-indigo-50' : 'border-gray-200 hover:bg-gray-50'}`}
+                title={`测试图片 #${index}`}
+              >
+                <img src={src} alt={`测试图片 #${index}`} className="w-10 h-10 bg-black" style={{ imageRendering: 'pixelated' }} />
+                <span className="text-green-600 truncate max-w-full">真 {classNames[result.labels[index]]}</span>
+                <span className="text-red-500 truncate max-w-full">预 {classNames[result.predictions[index]]}</span>
+                <span className="text-gray-400">{(result.confidences[index] * 100).toFixed(0)}%</span>
+              </button>
+            ))}
+          </div>
+          {visibleCount < mistakes.length && (
+            <button
+              onClick={() => setVisibleCount(n => n + PAGE_SIZE)}
+              className="mt-2 w-full py-1 text-sm text-indigo-600 bg-indigo-50 rounded hover:bg-indigo-100"
+            >
+              显示更多（还有 {mistakes.length - visibleCount} 张）
+            </button>
+          )}
+        </div>
+
+        <div className="bg-indigo-50 p-3 rounded-lg border border-indigo-100">
+          {selectedIndex !== null && probabilities ? (
+            <>
+              <p className="text-sm text-gray-700 mb-2">
+                #{selectedIndex}：真实是 <b className="text-green-600">{classNames[result.labels[selectedIndex]]}</b>，
+                模型认为是 <b className="text-indigo-600">{classNames[probabilities.indexOf(Math.max(...probabilities))]}</b>
+              </p>
+              <ProbabilityBars
+                probabilities={probabilities}
+                classNames={classNames}
+                trueLabel={result.labels[selectedIndex]}
+              />
+            </>
+          ) : (
+            <p className="text-sm text-gray-400">点击左侧的图片查看模型给每个类别的概率。</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { SavedModelInfo, isValidModelName, listSavedModels } from '../../utils/model-storage';
+
+interface ModelStoragePanelProps {
+  disabled?: boolean;
+  onSave: (name: string) => Promise<void>;
+  onLoad: (name: string) => Promise<void>;
+  onDelete: (name: string) => Promise<void>;
+  onExport: (name: string) => Promise<void>;
+  onImport: (files: File[]) => Promise<void>;
+}
+
+export const ModelStoragePanel: React.FC<ModelStoragePanelProps> = ({
+  disabled,
+  onSave,
+  onLoad,
+  onDelete,
+  onExport,
+  onImport
+}) => {
+  const [name, setName] = useState('my-cnn');
+  const [savedModels, setSavedModels] = useState<SavedModelInfo[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setSavedModels(await listSavedModels());
+    } catch (err) {
+      console.error("Failed to list saved models", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Runs a storage action, then refreshes the list whatever the outcome.
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      console.error("Model storage action failed", err);
+      alert(`操作失败：${err instanceof Error ? err.message : err}`);
+    } finally {
+      setIsBusy(false);
+      refresh();
+    }
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length > 0) run(() => onImport(files));
+  };
+
+  const nameIsValid = isValidModelName(name);
+  const isDisabled = disabled || isBusy;
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-md mt-4">
+      <h3 className="text-lg font-bold mb-3 text-gray-800">模型存档 (Models)</h3>
+
+      <div className="flex gap-2 mb-2">
+        <input
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder="模型名称"
+          className={`flex-1 min-w-0 border rounded px-2 py-1 text-sm ${nameIsValid ? '' : 'border-red-400'}`}
+        />
+        <button
+          onClick={() => {
+            const exists = savedModels.some(m => m.name === name);
+            if (!exists || confirm(`已存在名为 "${name}" 的模型，要覆盖吗？`)) run(() => onSave(name));
+          }}
+          disabled={isDisabled || !nameIsValid}
+          className="px-3 py-1 bg-green-100 text-green-700 rounded hover:bg-green-200 text-sm disabled:opacity-50"
+        >
+          保存
+        </button>
+      </div>
+
+      <div className="flex gap-2 mb-3">
+        <button
+          onClick={() => run(() => onExport(name))}
+          disabled={isDisabled || !nameIsValid}
+          className="flex-1 px-3 py-1 bg-blue-100 text-blue-600 rounded hover:bg-blue-200 text-sm disabled:opacity-50"
+        >
+          下载文件 (Export)
+        </button>
+        <label className={`flex-1 px-3 py-1 bg-blue-100 text-blue-600 rounded hover:bg-blue-200 text-sm text-center cursor-pointer ${isDisabled ? 'opacity-50 pointer-events-none' : ''}`}>
+          导入文件 (Import)
+          <input type="file" accept=".json,.bin" multiple onChange={handleImport} className="hidden" disabled={isDisabled} />
+        </label>
+      </div>
+
+      {savedModels.length > 0 ? (
+        <ul className="space-y-1 max-h-32 overflow-y-auto text-sm">
+          {savedModels.map(m => (
+            <li key={m.name} className="flex items-center gap-2 p-1 rounded hover:bg-gray-50">
+              <div className="flex-1 min-w-0">
+                <div className="font-semibold text-gray-700 truncate">{m.name}</div>
+                <div className="text-xs text-gray-400">
+                  {m.dateSaved.toLocaleString()} · {(m.sizeBytes / 1024).toFixed(0)} KB
+                </div>
+              </div>
+              <button
+                onClick={() => run(() => onLoad(m.name))}
+                disabled={isDisabled}
+                className="px-2 py-0.5 text-xs bg-indigo-100 text-indigo-700 rounded hover:bg-indigo-200 disabled:opacity-50"
+              >
+                加载
+              </button>
+              <button
+                onClick={() => {
+                  if (confirm(`确定要删除模型 "${m.name}" 吗？`)) run(() => onDelete(m.name));
+                }}
+                disabled={isDisabled}
+                className="px-2 py-0.5 text-xs bg-red-100 text-red-600 rounded hover:bg-red-200 disabled:opacity-50"
+              >
+                删除
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-gray-400 text-center">浏览器中还没有保存的模型</p>
+      )}
+    </div>
+  );
+};
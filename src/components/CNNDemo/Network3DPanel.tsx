@@ -0,0 +1,66 @@
+import React, { Suspense, lazy, useMemo, useState } from 'react';
+import * as tf from '@tensorflow/tfjs';
+import { FeatureMaps } from '../../utils/cnn-model';
+import { ArchitectureSpec, getSpatialLayerNames } from '../../utils/cnn-architecture';
+
+// three.js is only downloaded once the view is opened
+const Network3DScene = lazy(() => import('./Network3DScene').then(m => ({ default: m.Network3DScene })));
+
+interface Network3DPanelProps {
+  model: tf.LayersModel | null;
+  architecture: ArchitectureSpec;
+  featureMaps: { [key: string]: FeatureMaps };
+  prediction: { probabilities: number[]; image: ImageData } | null;
+  classNames: string[];
+}
+
+export const Network3DPanel: React.FC<Network3DPanelProps> = ({
+  model,
+  architecture,
+  featureMaps,
+  prediction,
+  classNames
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const layerNames = useMemo(() => getSpatialLayerNames(architecture), [architecture]);
+  const hasData = !!model && !!prediction && layerNames.some(name => featureMaps[name]);
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-md mt-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-bold text-gray-800">8. 3D 网络视图 (3D View)</h3>
+        <button
+          onClick={() => setIsOpen(o => !o)}
+          className="px-3 py-1 text-sm bg-indigo-100 text-indigo-700 rounded hover:bg-indigo-200 transition-colors"
+        >
+          {isOpen ? '收起 (Hide)' : '展开 (Show)'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="mt-3">
+          {hasData ? (
+            <>
+              <Suspense fallback={<p className="text-sm text-gray-400">正在加载 3D 视图...</p>}>
+                <Network3DScene
+                  model={model!}
+                  image={prediction!.image}
+                  featureMaps={featureMaps}
+                  layerNames={layerNames}
+                  probabilities={prediction!.probabilities}
+                  classNames={classNames}
+                />
+              </Suspense>
+              <p className="text-xs text-gray-500 mt-2">
+                * 拖动旋转、滚轮缩放、右键平移。从左到右依次是输入图片、每一层的特征图（每张图一层薄片）、拉直后的向量和输出的类别。
+                鼠标指向某张特征图上的一个点，黄色连线会标出它在输入图片上的感受野。每次识别都会逐层播放一遍。
+              </p>
+            </>
+          ) : (
+            <p className="text-sm text-gray-400">画一张图并点击“识别”后，这里会用 3D 的方式展示图片经过每一层后的样子。</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
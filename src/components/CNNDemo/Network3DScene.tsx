@@ -0,0 +1,370 @@
+import React, { useEffect, useRef, useState } from 'react';
+import * as THREE from 'three';
+import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
+import * as tf from '@tensorflow/tfjs';
+import { FeatureMaps } from '../../utils/cnn-model';
+import { colorize, featureValue, getChannelStats } from '../../utils/feature-maps';
+import { getReceptiveField } from '../../utils/receptive-field';
+
+interface Network3DSceneProps {
+  model: tf.LayersModel;
+  image: ImageData;                          // The input the feature maps were computed from
+  featureMaps: { [key: string]: FeatureMaps }; // From getActivation, for the same input
+  layerNames: string[];                      // Spatial layers to draw, in order
+  probabilities: number[];
+  classNames: string[];
+}
+
+// Scene units
+const PIXEL = 0.1;        // Side of one feature-map pixel
+const MIN_PLANE = 1.2;    // Deep layers are tiny; they are drawn at least this big
+const LAYER_GAP = 3.2;
+const CHANNEL_GAP = 0.15;
+const MAX_PLANES = 32;
+const REVEAL_MS = 350;    // Fade-in time of each layer after a prediction
+
+type Stage = { group: THREE.Group; materials: { material: THREE.Material; opacity: number }[] };
+
+// Neuron under the pointer: a feature-map pixel or an output class
+type Hit =
+  | { kind: 'map'; layerName: string; channel: number; y: number; x: number; value: number; mesh: THREE.Mesh }
+  | { kind: 'class'; index: number };
+
+// Texture whose first row is the top of the plane
+function makeTexture(h: number, w: number, color: (y: number, x: number) => [number, number, number]) {
+  const data = new Uint8Array(h * w * 4);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const offset = ((h - 1 - y) * w + x) * 4;
+      const [r, g, b] = color(y, x);
+      data[offset] = r;
+      data[offset + 1] = g;
+      data[offset + 2] = b;
+      data[offset + 3] = 255;
+    }
+  }
+  const texture = new THREE.DataTexture(data, w, h, THREE.RGBAFormat);
+  texture.magFilter = THREE.NearestFilter;
+  texture.minFilter = THREE.NearestFilter;
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.needsUpdate = true;
+  return texture;
+}
+
+function makeLabel(text: string, width = 2.4) {
+  const canvas = document.createElement('canvas');
+  canvas.width = 512;
+  canvas.height = 96;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#374151';
+  ctx.font = 'bold 44px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(text, canvas.width / 2, canvas.height / 2);
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  const sprite = new THREE.Sprite(new THREE.SpriteMaterial({ map: texture, transparent: true }));
+  sprite.scale.set(width, (width * canvas.height) / canvas.width, 1);
+  return sprite;
+}
+
+// Point on a plane mesh for a position in its h x w pixel grid, in world coordinates
+function planePoint(mesh: THREE.Mesh, row: number, col: number) {
+  const { size, h, w } = mesh.userData as { size: number; h: number; w: number };
+  return mesh.localToWorld(new THREE.Vector3((col / w - 0.5) * size, (0.5 - row / h) * size, 0));
+}
+
+function disposeTree(object: THREE.Object3D) {
+  object.traverse((child: THREE.Object3D) => {
+    const { geometry, material } = child as THREE.Mesh;
+    geometry?.dispose();
+    for (const m of (Array.isArray(material) ? material : material ? [material] : []) as THREE.Material[]) {
+      (m as THREE.MeshBasicMaterial).map?.dispose();
+      m.dispose();
+    }
+  });
+}
+
+export const Network3DScene: React.FC<Network3DSceneProps> = ({
+  model,
+  image,
+  featureMaps,
+  layerNames,
+  probabilities,
+  classNames
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const sceneRef = useRef<{ scene: THREE.Scene; camera: THREE.PerspectiveCamera; renderer: THREE.WebGLRenderer } | null>(null);
+  const contentRef = useRef<{ root: THREE.Group; stages: Stage[]; input: THREE.Mesh; highlight: THREE.Group } | null>(null);
+  const revealStart = useRef(0);
+  const hoverKey = useRef('');
+  const [tooltip, setTooltip] = useState<{ text: string; left: number; top: number } | null>(null);
+
+  // Renderer, camera, controls and the render loop live as long as the component
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const renderer = new THREE.WebGLRenderer({ antialias: true });
+    renderer.setPixelRatio(window.devicePixelRatio);
+    container.appendChild(renderer.domElement);
+
+    const scene = new THREE.Scene();
+    scene.background = new THREE.Color(0xf9fafb);
+    const camera = new THREE.PerspectiveCamera(45, 1, 0.1, 200);
+    camera.position.set(-6, 5, 14);
+    const controls = new OrbitControls(camera, renderer.domElement);
+    controls.enableDamping = true;
+
+    const resize = () => {
+      const { clientWidth, clientHeight } = container;
+      renderer.setSize(clientWidth, clientHeight);
+      camera.aspect = clientWidth / Math.max(clientHeight, 1);
+      camera.updateProjectionMatrix();
+    };
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(container);
+
+    let frame = 0;
+    const animate = () => {
+      frame = requestAnimationFrame(animate);
+      const content = contentRef.current;
+      if (content) {
+        const elapsed = performance.now() - revealStart.current;
+        content.stages.forEach(({ group, materials }, i) => {
+          const t = Math.max(0, Math.min(1, (elapsed - i * REVEAL_MS) / REVEAL_MS));
+          group.visible = t > 0;
+          for (const { material, opacity } of materials) material.opacity = opacity * t;
+        });
+      }
+      controls.update();
+      renderer.render(scene, camera);
+    };
+    animate();
+    sceneRef.current = { scene, camera, renderer };
+
+    return () => {
+      cancelAnimationFrame(frame);
+      observer.disconnect();
+      controls.dispose();
+      renderer.dispose();
+      container.removeChild(renderer.domElement);
+      sceneRef.current = null;
+    };
+  }, []);
+
+  // Rebuilt for every prediction, which also replays the layer-by-layer reveal
+  useEffect(() => {
+    const three = sceneRef.current;
+    if (!three) return;
+
+    const root = new THREE.Group();
+    const stages: Stage[] = [];
+    const addStage = (title: string) => {
+      const group = new THREE.Group();
+      group.position.x = stages.length * LAYER_GAP;
+      const stage = { group, materials: [] as Stage['materials'] };
+      const label = makeLabel(title);
+      stage.materials.push({ material: label.material, opacity: 1 });
+      group.add(label);
+      root.add(group);
+      stages.push(stage);
+      return { stage, label };
+    };
+    const addPlane = (stage: Stage, texture: THREE.Texture, size: number, opacity: number) => {
+      const material = new THREE.MeshBasicMaterial({ map: texture, side: THREE.DoubleSide, transparent: true, opacity });
+      const mesh = new THREE.Mesh(new THREE.PlaneGeometry(size, size), material);
+      const edges = new THREE.LineSegments(
+        new THREE.EdgesGeometry(mesh.geometry),
+        new THREE.LineBasicMaterial({ color: 0x9ca3af, transparent: true })
+      );
+      mesh.add(edges);
+      stage.materials.push({ material, opacity }, { material: edges.material as THREE.Material, opacity: 1 });
+      stage.group.add(mesh);
+      return mesh;
+    };
+
+    // Input image
+    const inputSize = Math.max(image.height * PIXEL, MIN_PLANE);
+    const { stage: inputStage, label: inputLabel } = addStage(`输入 ${image.width}x${image.height}`);
+    const input = addPlane(inputStage, makeTexture(image.height, image.width, (y, x) => {
+      const i = (y * image.width + x) * 4;
+      return [image.data[i], image.data[i + 1], image.data[i + 2]];
+    }), inputSize, 1);
+    input.userData = { size: inputSize, h: image.height, w: image.width };
+    inputLabel.position.y = inputSize / 2 + 0.5;
+
+    // A deck of feature-map planes per spatial layer
+    for (const layerName of layerNames) {
+      const maps = featureMaps[layerName];
+      if (!maps) continue;
+      const [h, w, channels] = maps.shape;
+      const size = Math.max(h * PIXEL, MIN_PLANE);
+      const count = Math.min(channels, MAX_PLANES);
+      const { stage, label } = addStage(`${layerName} ${h}x${w}x${channels}`);
+      for (let c = 0; c < count; c++) {
+        const { min, max } = getChannelStats(maps, c);
+        const mesh = addPlane(stage, makeTexture(h, w, (y, x) => colorize(featureValue(maps, c, y, x), min, max, 'viridis')), size, 0.9);
+        mesh.position.z = (count / 2 - c) * CHANNEL_GAP;
+        mesh.userData = { kind: 'map', layerName, channel: c, size, h, w };
+      }
+      label.position.y = size / 2 + 0.5;
+    }
+
+    // The flatten vector is the last layer's maps read in order, wrapped row by
+    // row into a square: a one-pixel strip of a big layer would be taller than
+    // the largest texture WebGL allows
+    const last = layerNames.map(n => featureMaps[n]).filter(Boolean).pop();
+    if (last) {
+      const values = last.data;
+      const max = values.reduce((m, v) => Math.max(m, Math.abs(v)), 1e-6);
+      const side = Math.ceil(Math.sqrt(values.length));
+      const size = Math.min(Math.max(side * PIXEL, MIN_PLANE), 4);
+      const { stage, label } = addStage(`flatten ${values.length}`);
+      addPlane(stage, makeTexture(side, side, (y, x) => {
+        const i = y * side + x;
+        return i < values.length ? colorize(values[i], 0, max, 'viridis') : [255, 255, 255];
+      }), size, 1);
+      label.position.y = size / 2 + 0.5;
+    }
+
+    // One sphere per class, bigger and bluer the more probable
+    const { stage: outputStage, label: outputLabel } = addStage('输出');
+    const spacing = 0.45;
+    probabilities.forEach((p, k) => {
+      const y = ((probabilities.length - 1) / 2 - k) * spacing;
+      const color = new THREE.Color(0xd1d5db).lerp(new THREE.Color(0x4f46e5), p);
+      const material = new THREE.MeshBasicMaterial({ color, transparent: true });
+      const sphere = new THREE.Mesh(new THREE.SphereGeometry(0.1 + 0.12 * p, 16, 12), material);
+      sphere.position.y = y;
+      sphere.userData = { kind: 'class', index: k };
+      const name = makeLabel(`${classNames[k] ?? k}  ${(p * 100).toFixed(0)}%`, 1.4);
+      name.position.set(1, y, 0);
+      outputStage.materials.push({ material, opacity: 1 }, { material: name.material, opacity: 1 });
+      outputStage.group.add(sphere, name);
+    });
+    outputLabel.position.y = (probabilities.length / 2) * spacing + 0.4;
+
+    root.position.x = -((stages.length - 1) * LAYER_GAP) / 2;
+    const highlight = new THREE.Group();
+    root.add(highlight);
+    three.scene.add(root);
+    contentRef.current = { root, stages, input, highlight };
+    revealStart.current = performance.now();
+    hoverKey.current = '';
+    setTooltip(null);
+
+    return () => {
+      three.scene.remove(root);
+      disposeTree(root);
+      contentRef.current = null;
+    };
+  }, [image, featureMaps, layerNames, probabilities, classNames]);
+
+  // Lines from a hovered neuron to the corners of its receptive field on the input
+  const showReceptiveField = (hit: Extract<Hit, { kind: 'map' }>) => {
+    const content = contentRef.current;
+    if (!content) return;
+    const { rows: [top, bottom], cols: [left, right] } = getReceptiveField(model, hit.layerName, hit.y, hit.x);
+    const corners = [
+      planePoint(content.input, top, left),
+      planePoint(content.input, top, right + 1),
+      planePoint(content.input, bottom + 1, right + 1),
+      planePoint(content.input, bottom + 1, left),
+    ];
+    const neuron = planePoint(hit.mesh, hit.y + 0.5, hit.x + 0.5);
+    const points = corners.flatMap((corner, i) => [neuron, corner, corner, corners[(i + 1) % 4]]);
+    // Everything is drawn relative to the content root
+    const local = points.map(p => content.root.worldToLocal(p.clone()));
+    const lines = new THREE.LineSegments(
+      new THREE.BufferGeometry().setFromPoints(local),
+      new THREE.LineBasicMaterial({ color: 0xf59e0b })
+    );
+    content.highlight.add(lines);
+  };
+
+  const clearHighlight = () => {
+    const content = contentRef.current;
+    if (!content) return;
+    disposeTree(content.highlight);
+    content.highlight.clear();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const three = sceneRef.current;
+    const content = contentRef.current;
+    if (!three || !content) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const pointer = new THREE.Vector2(
+      ((e.clientX - rect.left) / rect.width) * 2 - 1,
+      -((e.clientY - rect.top) / rect.height) * 2 + 1
+    );
+    const raycaster = new THREE.Raycaster();
+    raycaster.setFromCamera(pointer, three.camera);
+
+    let hit: Hit | null = null;
+    for (const intersection of raycaster.intersectObjects(content.root.children, true)) {
+      const { object, uv } = intersection;
+      const data = object.userData as { kind?: string; layerName?: string; channel?: number; h?: number; w?: number; index?: number };
+      // Layers that have not faded in yet cannot be hovered
+      if (!object.parent?.visible) continue;
+      if (data.kind === 'class') {
+        hit = { kind: 'class', index: data.index! };
+        break;
+      }
+      if (data.kind === 'map' && uv) {
+        const x = Math.min(data.w! - 1, Math.floor(uv.x * data.w!));
+        const y = Math.min(data.h! - 1, Math.floor((1 - uv.y) * data.h!));
+        const maps = featureMaps[data.layerName!];
+        hit = { kind: 'map', layerName: data.layerName!, channel: data.channel!, y, x, value: featureValue(maps, data.channel!, y, x), mesh: object as THREE.Mesh };
+        break;
+      }
+    }
+
+    const key = hit ? (hit.kind === 'map' ? `${hit.layerName}/${hit.channel}/${hit.y}/${hit.x}` : `class/${hit.index}`) : '';
+    if (key !== hoverKey.current) {
+      hoverKey.current = key;
+      clearHighlight();
+      if (hit?.kind === 'map') {
+        try {
+          showReceptiveField(hit);
+        } catch (err) {
+          console.error("Failed to compute the receptive field", err);
+        }
+      }
+    }
+    const position = { left: e.clientX - rect.left + 12, top: e.clientY - rect.top + 12 };
+    if (!hit) setTooltip(null);
+    else if (hit.kind === 'map') setTooltip({ text: `${hit.layerName} #${hit.channel + 1} (${hit.y + 1}, ${hit.x + 1}) = ${hit.value.toFixed(3)}`, ...position });
+    else setTooltip({ text: `${classNames[hit.index] ?? hit.index}：${(probabilities[hit.index] * 100).toFixed(1)}%`, ...position });
+  };
+
+  return (
+    <div className="relative">
+      <div
+        ref={containerRef}
+        onPointerMove={handlePointerMove}
+        onPointerLeave={() => {
+          hoverKey.current = '';
+          clearHighlight();
+          setTooltip(null);
+        }}
+        className="w-full h-[480px] rounded border border-gray-200 overflow-hidden"
+      />
+      {tooltip && (
+        <div
+          className="absolute bg-black/75 text-white text-xs px-2 py-1 rounded pointer-events-none whitespace-nowrap"
+          style={{ left: tooltip.left, top: tooltip.top }}
+        >
+          {tooltip.text}
+        </div>
+      )}
+      <button
+        onClick={() => { revealStart.current = performance.now(); }}
+        className="absolute top-2 right-2 px-2 py-1 text-xs bg-indigo-100 text-indigo-700 rounded hover:bg-indigo-200"
+      >
+        重播 (Replay)
+      </button>
+    </div>
+  );
+};
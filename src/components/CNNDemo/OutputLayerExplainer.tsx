@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { OutputLayerBreakdown, softmax } from '../../utils/output-layer';
+
+interface OutputLayerExplainerProps {
+  breakdown: OutputLayerBreakdown;
+  classNames?: string[];
+}
+
+const TEMPERATURES = { min: 0.2, max: 5, step: 0.1 };
+
+// Large and tiny exponentials are easier to compare in scientific notation
+function formatNumber(v: number) {
+  if (!isFinite(v)) return '∞';
+  const abs = Math.abs(v);
+  return abs !== 0 && (abs >= 1e4 || abs < 1e-2) ? v.toExponential(1) : v.toFixed(2);
+}
+
+export const OutputLayerExplainer: React.FC<OutputLayerExplainerProps> = ({ breakdown, classNames }) => {
+  const [selected, setSelected] = useState<number | null>(null); // null follows the predicted class
+  const [temperature, setTemperature] = useState(1);
+
+  const { classes, source } = breakdown;
+  const logits = classes.map(c => c.logit);
+  const predicted = logits.indexOf(Math.max(...logits));
+  const classIndex = selected === null || selected >= classes.length ? predicted : selected;
+  const current = classes[classIndex];
+  const className = (k: number) => classNames?.[k] ?? String(k);
+
+  // Where a flattened feature came from, e.g. "pool2 特征图 #3 (2, 1)"
+  const featureLabel = (index: number) => {
+    if (!source) return `特征 #${index + 1}`;
+    const [, w, c] = source.shape;
+    const pos = Math.floor(index / c);
+    return `${source.layerName} 特征图 #${(index % c) + 1} (${Math.floor(pos / w) + 1}, ${(pos % w) + 1})`;
+  };
+
+  const scaled = logits.map(z => z / temperature);
+  const exps = scaled.map(z => Math.exp(z));
+  const expSum = exps.reduce((s, e) => s + e, 0);
+  const probabilities = softmax(logits, temperature);
+
+  return (
+    <div className="bg-gray-50 p-4 rounded-lg border border-gray-200 mt-4 text-xs">
+      <h4 className="font-bold text-gray-700 mb-2">全连接层 + Softmax 计算 (Dense & Softmax)</h4>
+      <p className="text-gray-500 mb-3">
+        上一层的输出被拉直成 {breakdown.features.length} 个数。每个类别的得分 (logit) = 偏置 + Σ 特征值 × 权重。
+      </p>
+
+      {/* Step 1: contributions to one logit */}
+      <div className="mb-4">
+        <div className="flex items-center gap-2 mb-2">
+          <span className="font-semibold text-gray-600">① 类别</span>
+          <select
+            value={classIndex}
+            onChange={(e) => setSelected(Number(e.target.value))}
+            className="text-xs border rounded px-1 py-0.5"
+          >
+            {classes.map((_, k) => (
+              <option key={k} value={k}>{className(k)}{k === predicted ? '（预测结果）' : ''}</option>
+            ))}
+          </select>
+          <span className="text-gray-500">的得分由哪些特征贡献：</span>
+        </div>
+        <table className="w-full bg-white border rounded">
+          <thead>
+            <tr className="text-gray-500 border-b">
+              <th className="text-left p-1">特征</th>
+              <th className="text-right p-1">特征值</th>
+              <th className="text-right p-1">× 权重</th>
+              <th className="text-right p-1">= 贡献</th>
+            </tr>
+          </thead>
+          <tbody>
+            {current.top.map(c => (
+              <tr key={c.index} className="border-b border-gray-100">
+                <td className="p-1 text-gray-600">{featureLabel(c.index)}</td>
+                <td className="p-1 text-right">{c.value.toFixed(2)}</td>
+                <td className="p-1 text-right">{c.weight.toFixed(2)}</td>
+                <td className={`p-1 text-right font-bold ${c.product >= 0 ? 'text-blue-600' : 'text-red-600'}`}>
+                  {c.product >= 0 ? '+' : ''}{c.product.toFixed(2)}
+                </td>
+              </tr>
+            ))}
+            <tr className="border-b border-gray-100 text-gray-500">
+              <td className="p-1" colSpan={3}>其余 {current.restCount} 个特征之和</td>
+              <td className="p-1 text-right">{current.rest >= 0 ? '+' : ''}{current.rest.toFixed(2)}</td>
+            </tr>
+            <tr className="border-b border-gray-100 text-gray-500">
+              <td className="p-1" colSpan={3}>偏置 (bias)</td>
+              <td className="p-1 text-right">{current.bias >= 0 ? '+' : ''}{current.bias.toFixed(2)}</td>
+            </tr>
+            <tr className="font-bold">
+              <td className="p-1" colSpan={3}>得分 (logit)</td>
+              <td className="p-1 text-right">{current.logit.toFixed(2)}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      {/* Steps 2-4: from logits to probabilities */}
+      <div>
+        <div className="flex items-center gap-2 mb-2">
+          <span className="font-semibold text-gray-600">② 温度 T</span>
+          <input
+            type="range"
+            min={TEMPERATURES.min}
+            max={TEMPERATURES.max}
+            step={TEMPERATURES.step}
+            value={temperature}
+            onChange={(e) => setTemperature(Number(e.target.value))}
+            className="flex-1"
+          />
+          <span className="w-10 text-right font-mono">{temperature.toFixed(1)}</span>
+          {temperature !== 1 && (
+            <button
+              onClick={() => setTemperature(1)}
+              className="px-2 py-0.5 bg-indigo-100 text-indigo-700 rounded hover:bg-indigo-200"
+            >
+              T = 1
+            </button>
+          )}
+        </div>
+        <table className="w-full bg-white border rounded">
+          <thead>
+            <tr className="text-gray-500 border-b">
+              <th className="text-left p-1">类别</th>
+              <th className="text-right p-1">得分 z</th>
+              <th className="text-right p-1">z ÷ T</th>
+              <th className="text-right p-1">③ e^(z÷T)</th>
+              <th className="text-left p-1 pl-3">④ ÷ 总和 = 概率</th>
+            </tr>
+          </thead>
+          <tbody>
+            {classes.map((_, k) => (
+              <tr
+                key={k}
+                onClick={() => setSelected(k)}
+                className={`border-b border-gray-100 cursor-pointer hover:bg-gray-50 ${k === classIndex ? 'bg-blue-50' : ''}`}
+              >
+                <td className={`p-1 ${k === predicted ? 'font-bold text-indigo-600' : 'text-gray-600'}`}>{className(k)}</td>
+                <td className="p-1 text-right">{logits[k].toFixed(2)}</td>
+                <td className="p-1 text-right">{scaled[k].toFixed(2)}</td>
+                <td className="p-1 text-right font-mono">{formatNumber(exps[k])}</td>
+                <td className="p-1 pl-3">
+                  <div className="flex items-center gap-2">
+                    <div className="flex-1 bg-gray-200 rounded-full h-2">
+                      <div className="bg-indigo-500 h-2 rounded-full" style={{ width: `${probabilities[k] * 100}%` }}></div>
+                    </div>
+                    <span className="w-12 text-right">{(probabilities[k] * 100).toFixed(1)}%</span>
+                  </div>
+                </td>
+              </tr>
+            ))}
+            <tr className="text-gray-500">
+              <td className="p-1" colSpan={3}>总和 (Σ)</td>
+              <td className="p-1 text-right font-mono">{formatNumber(expSum)}</td>
+              <td className="p-1 pl-3">100%</td>
+            </tr>
+          </tbody>
+        </table>
+        <p className="text-gray-500 mt-2">
+          {temperature === 1
+            ? '* T = 1 时就是模型真正使用的 Softmax，概率与“训练与预测”面板中的识别结果一致。'
+            : temperature < 1
+              ? '* T < 1：得分之间的差距被放大，概率更集中，模型显得更“自信”。'
+              : '* T > 1：得分之间的差距被缩小，概率更平均，模型显得更“犹豫”。'}
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,277 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { FeatureMaps } from '../../utils/cnn-model';
+import { PlaybackControls, SlidingWindow, usePlayback } from './AnimationPlayback';
+import { Padding, samePadding, windowOutputSize } from '../../utils/cnn-architecture';
+
+interface PoolAnimationProps {
+  input: FeatureMaps; // The feature maps the layer receives
+  kind: 'max' | 'average';
+  poolSize?: number;
+  stride?: number;
+  padding?: Padding;
+}
+
+// Side of the feature-map region the animation works on, at most
+const REGION_SIZE = 12;
+
+export const PoolAnimation: React.FC<PoolAnimationProps> = ({
+  input,
+  kind,
+  poolSize = 2,
+  stride = poolSize,
+  padding = 'valid'
+}) => {
+  const [channel, setChannel] = useState(0);
+
+  // Dimensions: the layer's whole output, and the part of it the region covers.
+  // The region always starts on a real window, so every output cell is one the
+  // layer itself produces
+  const [imageH, imageW, channels] = input.shape;
+  const layerOutH = Math.max(0, windowOutputSize(imageH, poolSize, stride, padding));
+  const layerOutW = Math.max(0, windowOutputSize(imageW, poolSize, stride, padding));
+  const windowsPerRegion = Math.max(1, Math.floor((REGION_SIZE - poolSize) / stride) + 1);
+  const outputH = Math.min(windowsPerRegion, layerOutH);
+  const outputW = Math.min(windowsPerRegion, layerOutW);
+  const totalSteps = outputH * outputW;
+  const playback = usePlayback(totalSteps);
+  const { step, setStep, setIsPlaying } = playback;
+
+  // 'same' pads the whole feature map, not the region
+  const padTop = padding === 'same' ? samePadding(imageH, poolSize, stride)[0] : 0;
+  const padLeft = padding === 'same' ? samePadding(imageW, poolSize, stride)[0] : 0;
+
+  // First window shown, in output cells
+  const [region, setRegion] = useState({
+    row: Math.floor((layerOutH - outputH) / 2),
+    col: Math.floor((layerOutW - outputW) / 2),
+  });
+
+  // A different layer or image size: start again from the centre
+  useEffect(() => {
+    setRegion({ row: Math.floor((layerOutH - outputH) / 2), col: Math.floor((layerOutW - outputW) / 2) });
+    setChannel(c => Math.min(c, channels - 1));
+  }, [layerOutH, layerOutW, outputH, outputW, channels]);
+
+  useEffect(() => {
+    setStep(0);
+    setIsPlaying(false);
+  }, [channel, region]);
+
+  // The input cells under the shown windows, padding included
+  const regionH = outputH > 0 ? (outputH - 1) * stride + poolSize : 0;
+  const regionW = outputW > 0 ? (outputW - 1) * stride + poolSize : 0;
+  // Clamped, for the render before the effect above catches up with a smaller layer
+  const regionTop = Math.min(region.row, layerOutH - outputH) * stride - padTop;
+  const regionLeft = Math.min(region.col, layerOutW - outputW) * stride - padLeft;
+
+  const isPad = (y: number, x: number) =>
+    regionTop + y < 0 || regionTop + y >= imageH || regionLeft + x < 0 || regionLeft + x >= imageW;
+
+  const valueAt = (y: number, x: number) =>
+    input.data[((regionTop + y) * imageW + (regionLeft + x)) * channels + channel];
+
+  // The cells under the window at output (i, j), and which of them wins.
+  // Padded cells are skipped, as TensorFlow does: they never win a max and
+  // are not counted in an average
+  const pool = (i: number, j: number) => {
+    const cells: { y: number, x: number, val: number }[] = [];
+    for (let pi = 0; pi < poolSize; pi++) {
+      for (let pj = 0; pj < poolSize; pj++) {
+        const y = i * stride + pi;
+        const x = j * stride + pj;
+        if (!isPad(y, x)) cells.push({ y, x, val: valueAt(y, x) });
+      }
+    }
+    const winner = cells.reduce((best, c) => c.val > best.val ? c : best, cells[0]);
+    const value = kind === 'max' ? winner.val : cells.reduce((s, c) => s + c.val, 0) / cells.length;
+    return { cells, winner, value };
+  };
+
+  // The whole output map, so its colours share one scale
+  const output = Array.from({ length: outputH }, (_, i) =>
+    Array.from({ length: outputW }, (_, j) => pool(i, j).value)
+  );
+
+  const inputMax = useMemo(() => {
+    let max = 1e-6;
+    for (let y = Math.max(0, regionTop); y < Math.min(imageH, regionTop + regionH); y++) {
+      for (let x = Math.max(0, regionLeft); x < Math.min(imageW, regionLeft + regionW); x++) {
+        max = Math.max(max, input.data[(y * imageW + x) * channels + channel]);
+      }
+    }
+    return max;
+  }, [input, regionTop, regionLeft, regionH, regionW, imageH, imageW, channels, channel]);
+
+  // Current position
+  const currentY = Math.floor(step / Math.max(1, outputW));
+  const currentX = step % Math.max(1, outputW);
+  const result = totalSteps > 0 ? pool(currentY, currentX) : null;
+
+  // Activations: Grayscale (0=Black, max=White), on the input's scale so
+  // pooled values look exactly as bright as where they came from
+  const getColor = (val: number) => {
+    const v = Math.round(Math.max(0, Math.min(1, val / inputMax)) * 255);
+    return `rgb(${v}, ${v}, ${v})`;
+  };
+
+  const getTextColor = (val: number) => val / inputMax > 0.5 ? 'black' : 'white';
+
+  const selectClass = "text-xs border rounded px-1 py-0.5";
+
+  return (
+    <div className="bg-gray-50 p-4 rounded-lg border border-gray-200 mt-4">
+      <div className="flex justify-between items-center mb-4">
+        <h4 className="font-bold text-gray-700">池化过程演示 (Pooling Process)</h4>
+        <PlaybackControls playback={playback} disabled={totalSteps === 0} />
+      </div>
+
+      {/* Settings */}
+      <div className="flex flex-wrap gap-x-4 gap-y-2 items-center text-xs text-gray-600 mb-4">
+        {channels > 1 && (
+          <label className="flex items-center gap-1">
+            特征图
+            <select value={channel} onChange={(e) => setChannel(Number(e.target.value))} className={selectClass}>
+              {Array.from({ length: channels }, (_, c) => <option key={c} value={c}>#{c + 1}</option>)}
+            </select>
+          </label>
+        )}
+        {/* One slider step moves the region by one window (the stride) */}
+        {layerOutH > outputH && (
+          <label className="flex items-center gap-1">
+            区域 行
+            <input
+              type="range"
+              min={0}
+              max={layerOutH - outputH}
+              value={region.row}
+              onChange={(e) => setRegion(r => ({ ...r, row: Number(e.target.value) }))}
+              className="w-20"
+            />
+          </label>
+        )}
+        {layerOutW > outputW && (
+          <label className="flex items-center gap-1">
+            列
+            <input
+              type="range"
+              min={0}
+              max={layerOutW - outputW}
+              value={region.col}
+              onChange={(e) => setRegion(r => ({ ...r, col: Number(e.target.value) }))}
+              className="w-20"
+            />
+          </label>
+        )}
+      </div>
+
+      {!result ? (
+        <p className="text-sm text-gray-500">特征图比池化窗口还小，无法演示。</p>
+      ) : (
+      <div className="flex flex-col md:flex-row gap-8 items-start justify-center">
+        {/* Input Grid */}
+        <div className="relative">
+            <h5 className="text-center text-sm font-semibold mb-2">
+              特征图{channels > 1 ? ` #${channel + 1}` : ''} (Input)
+            </h5>
+            <div
+                className="grid gap-px bg-gray-300 border border-gray-400"
+                style={{ gridTemplateColumns: `repeat(${regionW}, 24px)` }}
+            >
+                {Array.from({ length: regionH }, (_, i) => (
+                    Array.from({ length: regionW }, (_, j) => {
+                        const pad = isPad(i, j);
+                        const val = pad ? 0 : valueAt(i, j);
+                        const isWinner = kind === 'max' && i === result.winner.y && j === result.winner.x;
+                        return (
+                            <div
+                                key={`${i}-${j}`}
+                                className={`w-6 h-6 flex items-center justify-center text-[8px] transition-all duration-200
+                                    ${isWinner ? 'ring-2 ring-red-500 z-20 font-bold' : ''}
+                                    ${pad ? 'text-gray-400' : ''}
+                                `}
+                                style={pad
+                                    ? { background: 'repeating-linear-gradient(45deg, #f9fafb, #f9fafb 3px, #e5e7eb 3px, #e5e7eb 6px)' }
+                                    : { backgroundColor: getColor(val), color: getTextColor(val) }
+                                }
+                                title={pad ? '填充 (padding)，不参与计算' : undefined}
+                            >
+                                {pad ? '–' : val.toFixed(1)}
+                            </div>
+                        );
+                    })
+                ))}
+            </div>
+            <SlidingWindow row={currentY * stride} col={currentX * stride} height={poolSize} width={poolSize} />
+        </div>
+
+        {/* Math */}
+        <div className="flex flex-col items-center justify-center gap-4 self-center">
+            <div className="text-2xl text-gray-400">→</div>
+
+            <div className="bg-white p-3 rounded shadow-sm border text-xs w-48">
+                <div className="font-bold mb-1 border-b pb-1">
+                  {kind === 'max' ? '取最大值 (Max)' : '取平均值 (Average)'}
+                </div>
+                <div className="space-y-1">
+                    {result.cells.map((c, idx) => {
+                        const isWinner = kind === 'max' && c === result.winner;
+                        return (
+                            <div key={idx} className={`flex justify-between ${isWinner ? 'font-bold text-red-600' : 'text-gray-600'}`}>
+                                <span>位置 ({regionTop + c.y + 1}, {regionLeft + c.x + 1})</span>
+                                <span>{c.val.toFixed(2)}{isWinner ? ' ✓' : ''}</span>
+                            </div>
+                        );
+                    })}
+                    {result.cells.length < poolSize * poolSize && (
+                        <div className="text-gray-400">填充的格子不参与计算</div>
+                    )}
+                </div>
+                <div className="border-t mt-1 pt-1 flex justify-between font-bold text-blue-600">
+                    <span>{kind === 'max' ? '最大值' : `求和 ÷ ${result.cells.length}`}</span>
+                    <span>= {result.value.toFixed(2)}</span>
+                </div>
+            </div>
+
+            <div className="text-2xl text-gray-400">=</div>
+        </div>
+
+        {/* Output Grid */}
+        <div>
+            <h5 className="text-center text-sm font-semibold mb-2">池化结果 (Output)</h5>
+            <div
+                className="grid gap-px bg-gray-300 border border-gray-400"
+                style={{ gridTemplateColumns: `repeat(${outputW}, 24px)` }}
+            >
+                {output.map((row, i) => (
+                    row.map((cellVal, j) => {
+                        const isCurrent = i === currentY && j === currentX;
+                        const isPast = i < currentY || (i === currentY && j < currentX);
+                        const isShown = isPast || isCurrent;
+
+                        return (
+                            <div
+                                key={`o-${i}-${j}`}
+                                className={`w-6 h-6 flex items-center justify-center text-[8px] transition-all duration-200
+                                    ${isCurrent ? 'ring-2 ring-green-500 z-10 scale-110' : ''}
+                                    ${!isShown ? 'opacity-30' : ''}
+                                `}
+                                style={{
+                                    backgroundColor: isShown ? getColor(cellVal) : 'white',
+                                    color: isShown ? getTextColor(cellVal) : 'gray'
+                                }}
+                            >
+                                {isShown ? cellVal.toFixed(1) : '?'}
+                            </div>
+                        );
+                    })
+                ))}
+            </div>
+            <p className="text-[10px] text-gray-500 text-center mt-1">
+              {regionH}x{regionW} → {outputH}x{outputW}（窗口 {poolSize}x{poolSize}，步长 {stride}{padding === 'same' ? '，same 填充' : ''}）
+            </p>
+        </div>
+      </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,29 @@
+import React from 'react';
+
+interface ProbabilityBarsProps {
+  probabilities: number[];
+  classNames: string[];
+  trueLabel?: number; // Drawn in green, e.g. for a misclassified test image
+}
+
+export const ProbabilityBars: React.FC<ProbabilityBarsProps> = ({ probabilities, classNames, trueLabel }) => {
+  // Digits and letters fit a narrow column; clothing and CIFAR names do not
+  const labelWidth = classNames.some(name => name.length > 1) ? 'w-12' : 'w-4';
+
+  return (
+    <div className="space-y-2">
+        {probabilities.map((prob, idx) => (
+            <div key={idx} className="flex items-center gap-2 text-xs">
+                <span className={`${labelWidth} truncate font-bold ${idx === trueLabel ? 'text-green-600' : 'text-gray-500'}`} title={classNames[idx]}>{classNames[idx] ?? idx}</span>
+                <div className="flex-1 h-4 bg-gray-200 rounded overflow-hidden">
+                    <div 
+                        className={`h-full transition-all duration-500 ${idx === trueLabel ? 'bg-green-500' : 'bg-indigo-500'}`}
+                        style={{ width: `${prob * 100}%` }}
+                    ></div>
+                </div>
+                <span className="w-10 text-right text-gray-600">{(prob * 100).toFixed(1)}%</span>
+            </div>
+        ))}
+    </div>
+  );
+};
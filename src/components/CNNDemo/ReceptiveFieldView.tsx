@@ -0,0 +1,91 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import * as tf from '@tensorflow/tfjs';
+import { getModelInputShape } from '../../utils/cnn-model';
+import { getReceptiveField } from '../../utils/receptive-field';
+
+interface ReceptiveFieldViewProps {
+  model: tf.LayersModel;
+  layerName: string;
+  image: ImageData; // The input the feature maps were computed from
+  y: number;
+  x: number;
+  value: number; // Activation of the picked pixel
+}
+
+export const ReceptiveFieldView: React.FC<ReceptiveFieldViewProps> = ({ model, layerName, image, y, x, value }) => {
+  const inputRef = useRef<HTMLCanvasElement>(null);
+  const patchRef = useRef<HTMLCanvasElement>(null);
+
+  const field = useMemo(() => {
+    try {
+      return getReceptiveField(model, layerName, y, x);
+    } catch (err) {
+      console.error("Failed to compute the receptive field", err);
+      return null;
+    }
+  }, [model, layerName, y, x]);
+
+  useEffect(() => {
+    const canvas = inputRef.current;
+    if (!canvas) return;
+    canvas.width = image.width;
+    canvas.height = image.height;
+    canvas.getContext('2d')?.putImageData(image, 0, 0);
+  }, [image]);
+
+  useEffect(() => {
+    const canvas = patchRef.current;
+    if (!canvas || !field) return;
+    const [top, bottom] = field.rows;
+    const [left, right] = field.cols;
+    canvas.width = right - left + 1;
+    canvas.height = bottom - top + 1;
+    canvas.getContext('2d')?.putImageData(image, -left, -top, left, top, canvas.width, canvas.height);
+  }, [image, field]);
+
+  if (!field) return null;
+  const [h, w] = getModelInputShape(model);
+  const [top, bottom] = field.rows;
+  const [left, right] = field.cols;
+  const clipped = field.size[0] !== bottom - top + 1 || field.size[1] !== right - left + 1;
+
+  return (
+    <div className="border-t mt-3 pt-3 text-xs text-gray-600">
+      <div className="font-bold text-gray-700 mb-1">感受野 (Receptive Field)</div>
+      <p className="mb-2">
+        位置 ({y + 1}, {x + 1}) 的激活值为 <span className="font-mono font-bold">{value.toFixed(3)}</span>，
+        它只“看到”输入图片第 {top + 1}–{bottom + 1} 行、第 {left + 1}–{right + 1} 列
+        （{field.size[0]}x{field.size[1]}{clipped ? '，超出图片的部分是补的 0' : ''}）。
+      </p>
+      <div className="flex gap-4 items-start">
+        <div className="text-center">
+          <div className="relative w-28">
+            <canvas
+              ref={inputRef}
+              className="w-full aspect-square bg-black border border-gray-300"
+              style={{ imageRendering: 'pixelated' }}
+            />
+            <div
+              className="absolute border-2 border-yellow-400 bg-yellow-400/20 pointer-events-none"
+              style={{
+                top: `${(top / h) * 100}%`,
+                left: `${(left / w) * 100}%`,
+                height: `${((bottom - top + 1) / h) * 100}%`,
+                width: `${((right - left + 1) / w) * 100}%`,
+              }}
+            />
+          </div>
+          <span className="text-[10px] text-gray-500">输入 ({w}x{h})</span>
+        </div>
+        <div className="text-center">
+          <canvas
+            ref={patchRef}
+            className="w-28 bg-black border border-yellow-400"
+            style={{ imageRendering: 'pixelated' }}
+          />
+          <div className="text-[10px] text-gray-500">产生这个值的区域</div>
+        </div>
+      </div>
+    </div>
+  );
+};
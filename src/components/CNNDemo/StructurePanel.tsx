@@ -1,75 +1,107 @@
-import React from 'react';
+import React, { useMemo } from 'react';
+import * as tf from '@tensorflow/tfjs';
 import { ConvAnimation } from './ConvAnimation';
-
-interface LayerInfo {
-  name: string;
-  type: string;
-  desc: string;
-  details: string;
-}
-
-const LAYERS: LayerInfo[] = [
-  { 
-    name: 'Input', 
-    type: 'Input Layer', 
-    desc: '输入层', 
-    details: '接收 28x28 的像素图像。每个像素点代表颜色的深浅（0-255）。' 
-  },
-  { 
-    name: 'conv1', 
-    type: 'Conv2D', 
-    desc: '卷积层', 
-    details: '使用 8 个 5x5 的小窗口（滤波器）扫描图片，提取边缘、线条等特征。就像用不同的滤镜看图片。' 
-  },
-  { 
-    name: 'relu1', 
-    type: 'ReLU', 
-    desc: '激活层', 
-    details: '过滤掉负值，保留正值。就像神经元被激活一样，只有足够强的信号才能通过。' 
-  },
-  { 
-    name: 'pool1', 
-    type: 'MaxPooling', 
-    desc: '池化层', 
-    details: '将图片缩小一半（2x2 -> 1x1），保留最明显的特征，减少计算量。' 
-  },
-  { 
-    name: 'flatten', 
-    type: 'Flatten', 
-    desc: '扁平化', 
-    details: '将二维的图像矩阵“拉直”成一维的长向量，以便连接到全连接层。' 
-  },
-  { 
-    name: 'output', 
-    type: 'Dense', 
-    desc: '全连接层', 
-    details: '综合所有特征，计算出属于 0-9 每个数字的“得分”。' 
-  },
-];
+import { FeatureMapViewer } from './FeatureMapViewer';
+import { PoolAnimation } from './PoolAnimation';
+import { IdealInputView } from './IdealInputView';
+import { KernelViewer } from './KernelViewer';
+import { OutputLayerExplainer } from './OutputLayerExplainer';
+import { FeatureMaps, KernelSnapshot, getConvKernels, getLayerInput } from '../../utils/cnn-model';
+import { getOutputLayerBreakdown } from '../../utils/output-layer';
+import { ArchitectureSpec, describeArchitecture } from '../../utils/cnn-architecture';
 
 interface StructurePanelProps {
+  architecture: ArchitectureSpec;
   activeLayer: string | null;
   onLayerClick: (layerName: string) => void;
-  featureMaps?: { [key: string]: string[] }; // Base64 images of feature maps
-  conv1Weights?: { kernel: number[][], bias: number } | null;
-  inputGrid?: number[][] | null;
+  featureMaps?: { [key: string]: FeatureMaps }; // Every channel of each spatial layer, for the current image
+  inputImage?: ImageData | null; // The preprocessed drawing, for the animations and the softmax breakdown
+  onEditArchitecture?: () => void;
+  model?: tf.LayersModel | null; // For the ideal-input view of conv and output layers
+  classNames?: string[];
+  kernelSnapshots?: KernelSnapshot[];
+  modelVersion?: number; // Changes whenever the model's weights do
 }
 
 export const StructurePanel: React.FC<StructurePanelProps> = ({ 
+  architecture,
   activeLayer, 
   onLayerClick, 
   featureMaps,
-  conv1Weights,
-  inputGrid
+  inputImage,
+  onEditArchitecture,
+  model,
+  classNames,
+  kernelSnapshots = [],
+  modelVersion = 0
 }) => {
+  const layers = useMemo(() => describeArchitecture(architecture), [architecture]);
+  const outputLayer = architecture.layers[architecture.layers.length - 1];
+
+  const activeSpec = architecture.layers.find(l => l.name === activeLayer);
+  const activeConv = activeSpec?.kind === 'conv2d' && model?.layers.some(l => l.name === activeSpec.name) ? activeSpec : null;
+
+  // What the active conv layer receives for the current image, and its kernels
+  const convDemo = useMemo(() => {
+    if (!activeConv || !model || !inputImage) return null;
+    try {
+      const kernels = getConvKernels(model, activeConv.name);
+      return kernels ? { input: getLayerInput(model, activeConv.name, inputImage), kernels } : null;
+    } catch (err) {
+      console.error("Failed to prepare the convolution animation", err);
+      return null;
+    }
+  }, [activeConv, model, inputImage, modelVersion]);
+
+  const activePool = (activeSpec?.kind === 'maxPooling2d' || activeSpec?.kind === 'averagePooling2d') &&
+    model?.layers.some(l => l.name === activeSpec.name) ? activeSpec : null;
+
+  // The feature maps the active pooling layer receives for the current image
+  const poolInput = useMemo(() => {
+    if (!activePool || !model || !inputImage) return null;
+    try {
+      return getLayerInput(model, activePool.name, inputImage);
+    } catch (err) {
+      console.error("Failed to prepare the pooling animation", err);
+      return null;
+    }
+  }, [activePool, model, inputImage, modelVersion]);
+
+  // The real numbers behind a Dense + softmax output layer
+  const showsSoftmax = activeLayer === outputLayer.name && outputLayer.kind === 'dense' && outputLayer.activation === 'softmax';
+  const outputBreakdown = useMemo(() => {
+    if (!showsSoftmax || !model || !inputImage) return null;
+    try {
+      return getOutputLayerBreakdown(model, inputImage);
+    } catch (err) {
+      console.error("Failed to break down the output layer", err);
+      return null;
+    }
+  }, [showsSoftmax, model, inputImage, modelVersion]);
+
+  // Conv filters and output classes have an ideal input worth drawing
+  const hasIdealInput = (layerName: string) =>
+    !!model?.layers.some(l => l.name === layerName) &&
+    (layerName === outputLayer.name || architecture.layers.some(l => l.name === layerName && l.kind === 'conv2d'));
+
   return (
     <div className="bg-white p-4 rounded-lg shadow-md flex flex-col h-full">
-      <h3 className="text-lg font-bold mb-4 text-gray-800">2. CNN 结构 (Structure)</h3>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-bold text-gray-800">2. CNN 结构 (Structure)</h3>
+        {onEditArchitecture && (
+          <button
+            onClick={onEditArchitecture}
+            className="px-3 py-1 text-sm bg-indigo-100 text-indigo-700 rounded hover:bg-indigo-200 transition-colors"
+          >
+            编辑结构 (Edit)
+          </button>
+        )}
+      </div>
       
       <div className="flex flex-1 gap-4">
         {/* Diagram Column */}
         <div className="flex flex-col items-center gap-2 w-1/3 overflow-y-auto py-2">
-          {LAYERS.map((layer, index) => (
+          {layers.map((layer, index) => (
             <React.Fragment key={layer.name}>
               <div 
                 onClick={() => onLayerClick(layer.name)}
@@ -83,7 +115,7 @@ export const StructurePanel: React.FC<StructurePanelProps> = ({
                 <div className="font-bold text-gray-700 text-sm">{layer.type}</div>
                 <div className="text-xs text-gray-500">{layer.desc}</div>
               </div>
-              {index < LAYERS.length - 1 && (
+              {index < layers.length - 1 && (
                 <div className="h-4 w-0.5 bg-gray-300"></div>
               )}
             </React.Fragment>
@@ -94,43 +126,87 @@ export const StructurePanel: React.FC<StructurePanelProps> = ({
         <div className="flex-1 bg-gray-50 rounded-lg p-4 border border-gray-200 overflow-y-auto">
           {activeLayer ? (
             <div>
-              {LAYERS.filter(l => l.name === activeLayer).map(layer => (
+              {layers.filter(l => l.name === activeLayer).map(layer => (
                 <div key={layer.name}>
                   <h4 className="font-bold text-blue-600 text-lg mb-2">{layer.type} - {layer.desc}</h4>
                   <p className="text-gray-700 mb-4 leading-relaxed">{layer.details}</p>
                   
                   {/* Convolution Animation */}
-                  {layer.name === 'conv1' && conv1Weights && inputGrid && (
-                    <div className="mb-6">
-                        <ConvAnimation 
-                            inputData={inputGrid}
-                            kernel={conv1Weights.kernel}
-                            bias={conv1Weights.bias}
-                        />
-                        <p className="text-xs text-gray-500 mt-2 text-center">
-                            * 演示使用图像中心 10x10 区域和第1个卷积核
-                        </p>
-                    </div>
+                  {activeConv && layer.name === activeConv.name && (
+                    convDemo ? (
+                      <div className="mb-6">
+                          <ConvAnimation
+                              key={activeConv.name}
+                              input={convDemo.input}
+                              kernels={convDemo.kernels}
+                              defaultStride={activeConv.strides}
+                              defaultPadding={activeConv.padding}
+                              activation={activeConv.activation === 'relu' ? 'relu' : 'none'}
+                          />
+                          <p className="text-xs text-gray-500 mt-2 text-center">
+                              * 演示使用该层输入中的一个 10x10 区域，可以在上方选择区域、卷积核、步长和填充方式
+                          </p>
+                      </div>
+                    ) : (
+                      <p className="text-xs text-gray-500 mb-4">* 先画一张图，就可以在这里看到卷积过程的动画</p>
+                    )
                   )}
 
-                  {featureMaps && featureMaps[activeLayer] && (
-                    <div className="mt-4">
-                      <h5 className="font-semibold text-sm text-gray-600 mb-2">特征图可视化 (Feature Maps):</h5>
-                      <div className="grid grid-cols-4 gap-2">
-                        {featureMaps[activeLayer].map((src, idx) => (
-                          <img 
-                            key={idx} 
-                            src={src} 
-                            alt={`Feature map ${idx}`} 
-                            className="w-full aspect-square object-contain bg-black border border-gray-300 rendering-pixelated"
-                            style={{ imageRendering: 'pixelated' }}
+                  {/* Pooling Animation */}
+                  {activePool && layer.name === activePool.name && (
+                    poolInput ? (
+                      <div className="mb-6">
+                          <PoolAnimation
+                              key={activePool.name}
+                              input={poolInput}
+                              kind={activePool.kind === 'maxPooling2d' ? 'max' : 'average'}
+                              poolSize={activePool.poolSize}
+                              stride={activePool.strides}
+                              padding={activePool.padding}
                           />
-                        ))}
+                          <p className="text-xs text-gray-500 mt-2 text-center">
+                              * 演示使用上一层真实特征图中的一块区域（最大 12x12），区域总是从池化窗口的边界开始，可以在上方选择特征图和区域
+                          </p>
                       </div>
-                      <p className="text-xs text-gray-500 mt-2">
-                        * 这些是该层“看到”的图像特征
-                      </p>
-                    </div>
+                    ) : (
+                      <p className="text-xs text-gray-500 mb-4">* 先画一张图，就可以在这里看到池化过程的动画</p>
+                    )
+                  )}
+
+                  {/* Dense & Softmax */}
+                  {showsSoftmax && layer.name === outputLayer.name && (
+                    outputBreakdown ? (
+                      <OutputLayerExplainer breakdown={outputBreakdown} classNames={classNames} />
+                    ) : (
+                      <p className="text-xs text-gray-500 mb-4">* 先画一张图，就可以在这里看到每个类别的得分和概率是怎么算出来的</p>
+                    )
+                  )}
+
+                  {featureMaps && featureMaps[activeLayer] && (
+                    <FeatureMapViewer
+                        key={activeLayer}
+                        maps={featureMaps[activeLayer]}
+                        layerName={activeLayer}
+                        model={model}
+                        inputImage={inputImage}
+                    />
+                  )}
+
+                  {model && activeConv && layer.name === activeConv.name && (
+                    <KernelViewer
+                        model={model}
+                        layerName={layer.name}
+                        snapshots={kernelSnapshots}
+                        version={modelVersion}
+                    />
+                  )}
+
+                  {model && hasIdealInput(layer.name) && (
+                    <IdealInputView
+                        model={model}
+                        layerName={layer.name}
+                        classNames={layer.name === outputLayer.name ? classNames : undefined}
+                    />
                   )}
                 </div>
               ))}
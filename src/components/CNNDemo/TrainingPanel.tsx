@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   Chart as ChartJS,
   CategoryScale,
@@ -11,6 +11,10 @@ import {
   ChartOptions
 } from 'chart.js';
 import { Line } from 'react-chartjs-2';
+import { TrainingLogEntry, BatchLogEntry, TrainingConfig, OptimizerName, DEFAULT_LEARNING_RATES, findOverfittingEpochs, getBatchesPerEpoch } from '../../utils/cnn-model';
+import { DataMix, DataMixMode } from '../../utils/custom-dataset';
+import { ProbabilityBars } from './ProbabilityBars';
+import { BatchChart } from './BatchChart';
 
 ChartJS.register(
   CategoryScale,
@@ -24,40 +28,148 @@ ChartJS.register(
 
 interface TrainingPanelProps {
   isTraining: boolean;
-  logs: { epoch: number; loss: number; acc: number }[];
+  isEvaluating: boolean; // The model is in use by a test-set evaluation
+  isPaused: boolean;
+  logs: TrainingLogEntry[];
+  batchLogs: BatchLogEntry[];
   onStartTraining: () => void;
+  onPauseTraining: () => void;
+  onResumeTraining: () => void;
+  onStopTraining: () => void;
   onReset: () => void;
   onPredict: () => void;
   prediction: { label: number; probabilities: number[] } | null;
+  classNames: string[];
   trainingProgress: number; // 0-100
+  trainingConfig: TrainingConfig;
+  onTrainingConfigChange: (config: TrainingConfig) => void;
+  dataMix: DataMix;
+  onDataMixChange: (mix: DataMix) => void;
+  customSampleCount: number;
 }
 
+const OPTIMIZER_LABELS: Record<OptimizerName, string> = {
+  sgd: 'SGD 随机梯度下降',
+  momentum: 'Momentum 动量',
+  adam: 'Adam',
+  rmsprop: 'RMSProp',
+};
+
+const BATCH_SIZES = [16, 32, 64, 128, 256];
+
+const DATA_MIX_LABELS: Record<DataMixMode, string> = {
+  dataset: '当前数据集',
+  custom: '只用自建数据',
+  mixed: '混合 (Mixed)',
+};
+
+const CUSTOM_PERCENTAGES = [10, 20, 30, 50, 70];
+
 export const TrainingPanel: React.FC<TrainingPanelProps> = ({
   isTraining,
+  isEvaluating,
+  isPaused,
   logs,
+  batchLogs,
   onStartTraining,
+  onPauseTraining,
+  onResumeTraining,
+  onStopTraining,
   onReset,
   onPredict,
   prediction,
-  trainingProgress
+  classNames,
+  trainingProgress,
+  trainingConfig,
+  onTrainingConfigChange,
+  dataMix,
+  onDataMixChange,
+  customSampleCount
 }) => {
+  const [showSettings, setShowSettings] = useState(false);
+  const [chartView, setChartView] = useState<'epoch' | 'batch'>('epoch');
+
+  const updateConfig = (patch: Partial<TrainingConfig>) => {
+    onTrainingConfigChange({ ...trainingConfig, ...patch });
+  };
+
+  // Commit on blur so partially typed values (e.g. "0.0") are not clamped
+  // mid-edit; the key remounts the input when the value changes elsewhere.
+  const numberInput = (
+    key: 'epochs' | 'trainSize' | 'validationSize' | 'learningRate',
+    min: number,
+    max: number,
+    step: number
+  ) => (
+    <input
+      key={`${key}-${trainingConfig[key]}`}
+      type="number"
+      defaultValue={trainingConfig[key]}
+      min={min}
+      max={max}
+      step={step}
+      disabled={isTraining}
+      onBlur={(e) => {
+        const v = Number(e.target.value);
+        if (e.target.value === '' || Number.isNaN(v)) {
+          e.target.value = String(trainingConfig[key]);
+          return;
+        }
+        const clamped = Math.min(max, Math.max(min, key === 'learningRate' ? v : Math.round(v)));
+        e.target.value = String(clamped);
+        if (clamped !== trainingConfig[key]) updateConfig({ [key]: clamped });
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+      }}
+      className="w-full border rounded px-2 py-1"
+    />
+  );
+
+  // Points are placed by the stored epoch index (shown 1-based), so loaded
+  // or partial runs line up with the epochs they actually belong to
+  const epochNumber = (l: TrainingLogEntry) => l.epoch + 1;
+  const partialEpochs = new Set(logs.filter(l => l.partial).map(epochNumber));
+  const overfittingEpochs = findOverfittingEpochs(logs);
+  const validationLogs = logs.filter(l => l.valLoss !== undefined);
+  const isOverfitting = validationLogs.map(l => overfittingEpochs.has(l.epoch));
+
   const chartData = {
-    labels: logs.map((_, i) => `E${i + 1}`),
     datasets: [
       {
         label: 'Loss (损失)',
-        data: logs.map(l => l.loss),
+        data: logs.map(l => ({ x: epochNumber(l), y: l.loss })),
+        borderColor: 'rgb(255, 99, 132)',
+        backgroundColor: 'rgba(255, 99, 132, 0.5)',
+        yAxisID: 'y',
+      },
+      {
+        label: 'Val Loss (验证损失)',
+        data: validationLogs.map(l => ({ x: epochNumber(l), y: l.valLoss! })),
         borderColor: 'rgb(255, 99, 132)',
         backgroundColor: 'rgba(255, 99, 132, 0.5)',
+        borderDash: [6, 4],
+        // Overfitting epochs stand out as large orange triangles
+        pointStyle: isOverfitting.map(o => (o ? 'triangle' : 'circle')),
+        pointRadius: isOverfitting.map(o => (o ? 7 : 3)),
+        pointBackgroundColor: isOverfitting.map(o => (o ? 'rgb(249, 115, 22)' : 'rgba(255, 99, 132, 0.5)')),
         yAxisID: 'y',
       },
       {
         label: 'Accuracy (准确率)',
-        data: logs.map(l => l.acc),
+        data: logs.map(l => ({ x: epochNumber(l), y: l.acc })),
         borderColor: 'rgb(53, 162, 235)',
         backgroundColor: 'rgba(53, 162, 235, 0.5)',
         yAxisID: 'y1',
       },
+      {
+        label: 'Val Acc (验证准确率)',
+        data: validationLogs.map(l => ({ x: epochNumber(l), y: l.valAcc! })),
+        borderColor: 'rgb(53, 162, 235)',
+        backgroundColor: 'rgba(53, 162, 235, 0.5)',
+        borderDash: [6, 4],
+        yAxisID: 'y1',
+      },
     ],
   };
 
@@ -65,7 +177,7 @@ export const TrainingPanel: React.FC<TrainingPanelProps> = ({
     responsive: true,
     maintainAspectRatio: false,
     interaction: {
-      mode: 'index' as const,
+      mode: 'x' as const,
       intersect: false,
     },
     plugins: {
@@ -77,6 +189,14 @@ export const TrainingPanel: React.FC<TrainingPanelProps> = ({
       },
     },
     scales: {
+      x: {
+        type: 'linear' as const,
+        ticks: {
+          stepSize: 1,
+          precision: 0,
+          callback: (value) => `E${value}${partialEpochs.has(Number(value)) ? '*' : ''}`,
+        },
+      },
       y: {
         type: 'linear' as const,
         display: true,
@@ -108,29 +228,135 @@ export const TrainingPanel: React.FC<TrainingPanelProps> = ({
 
       {/* Training Controls */}
       <div className="mb-6">
+        <div className="mb-2">
+            <button
+                onClick={() => setShowSettings(!showSettings)}
+                className="text-sm text-gray-600 hover:text-gray-800"
+            >
+                {showSettings ? '▾' : '▸'} 训练参数 (Settings)：{trainingConfig.epochs} 轮 · 批大小 {trainingConfig.batchSize} · {OPTIMIZER_LABELS[trainingConfig.optimizer]}
+                {dataMix.mode !== 'dataset' && ` · ${DATA_MIX_LABELS[dataMix.mode]}`}
+            </button>
+            {showSettings && (
+                <div className="grid grid-cols-2 gap-2 mt-2 p-3 bg-gray-50 rounded-lg border border-gray-200 text-xs">
+                    <label className="flex flex-col gap-1">
+                        <span className="text-gray-600">训练轮数 (Epochs)</span>
+                        {numberInput('epochs', 1, 50, 1)}
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        <span className="text-gray-600">批大小 (Batch Size)</span>
+                        <select
+                            value={trainingConfig.batchSize}
+                            disabled={isTraining}
+                            onChange={(e) => updateConfig({ batchSize: Number(e.target.value) })}
+                            className="w-full border rounded px-2 py-1"
+                        >
+                            {BATCH_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+                        </select>
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        <span className="text-gray-600">训练图片数 (Train)</span>
+                        {numberInput('trainSize', 100, 20000, 100)}
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        <span className="text-gray-600">验证图片数 (Validation)</span>
+                        {numberInput('validationSize', 50, 5000, 50)}
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        <span className="text-gray-600">优化器 (Optimizer)</span>
+                        <select
+                            value={trainingConfig.optimizer}
+                            disabled={isTraining}
+                            onChange={(e) => {
+                                const optimizer = e.target.value as OptimizerName;
+                                updateConfig({ optimizer, learningRate: DEFAULT_LEARNING_RATES[optimizer] });
+                            }}
+                            className="w-full border rounded px-2 py-1"
+                        >
+                            {(Object.keys(OPTIMIZER_LABELS) as OptimizerName[]).map(name => (
+                                <option key={name} value={name}>{OPTIMIZER_LABELS[name]}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        <span className="text-gray-600">学习率 (Learning Rate)</span>
+                        {numberInput('learningRate', 0.00001, 1, 0.0001)}
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        <span className="text-gray-600">训练数据 (Data)</span>
+                        <select
+                            value={dataMix.mode}
+                            disabled={isTraining}
+                            onChange={(e) => onDataMixChange({ ...dataMix, mode: e.target.value as DataMixMode })}
+                            className="w-full border rounded px-2 py-1"
+                        >
+                            {(Object.keys(DATA_MIX_LABELS) as DataMixMode[]).map(mode => (
+                                <option key={mode} value={mode} disabled={mode !== 'dataset' && customSampleCount === 0}>
+                                    {DATA_MIX_LABELS[mode]}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    {dataMix.mode === 'mixed' && (
+                        <label className="flex flex-col gap-1">
+                            <span className="text-gray-600">自建数据占比</span>
+                            <select
+                                value={Math.round(dataMix.customFraction * 100)}
+                                disabled={isTraining}
+                                onChange={(e) => onDataMixChange({ ...dataMix, customFraction: Number(e.target.value) / 100 })}
+                                className="w-full border rounded px-2 py-1"
+                            >
+                                {CUSTOM_PERCENTAGES.map(p => <option key={p} value={p}>{p}%</option>)}
+                            </select>
+                        </label>
+                    )}
+                    <p className="col-span-2 text-gray-500">
+                        每轮 {getBatchesPerEpoch(trainingConfig)} 个批次，共 {trainingConfig.epochs * getBatchesPerEpoch(trainingConfig)} 步
+                    </p>
+                </div>
+            )}
+        </div>
         <div className="flex gap-2 mb-2">
             <button
             onClick={onStartTraining}
-            disabled={isTraining}
+            disabled={isTraining || isEvaluating}
             className={`
                 flex-1 px-4 py-2 rounded-lg font-bold text-white transition-all
-                ${isTraining 
+                ${isTraining || isEvaluating
                 ? 'bg-gray-400 cursor-not-allowed' 
                 : 'bg-green-500 hover:bg-green-600 shadow-lg hover:shadow-xl'}
             `}
             >
             {isTraining 
-                ? '训练中... (Training)' 
+                ? isPaused ? '已暂停 (Paused)' : '训练中... (Training)' 
+                : isEvaluating
+                    ? '测试中... (Evaluating)'
                 : hasTrained 
                     ? '继续训练 (Train More)' 
                     : '开始训练 (Start Training)'}
             </button>
             
-            {hasTrained && (
+            {isTraining && (
+                <>
+                    <button
+                        onClick={isPaused ? onResumeTraining : onPauseTraining}
+                        className="px-3 py-2 bg-yellow-400 text-white rounded-lg hover:bg-yellow-500 transition-colors font-bold"
+                    >
+                        {isPaused ? '继续 (Resume)' : '暂停 (Pause)'}
+                    </button>
+                    <button
+                        onClick={onStopTraining}
+                        className="px-3 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors font-bold"
+                    >
+                        停止 (Stop)
+                    </button>
+                </>
+            )}
+
+            {hasTrained && !isTraining && (
                 <button
                     onClick={onReset}
-                    disabled={isTraining}
-                    className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors font-bold"
+                    disabled={isEvaluating}
+                    className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors font-bold disabled:opacity-50"
                 >
                     重置 (Reset)
                 </button>
@@ -143,13 +369,41 @@ export const TrainingPanel: React.FC<TrainingPanelProps> = ({
                     className="bg-green-600 h-2.5 rounded-full transition-all duration-300" 
                     style={{ width: `${trainingProgress}%` }}
                 ></div>
-                <p className="text-xs text-center mt-1 text-gray-600">正在学习数据特征...</p>
+                <p className="text-xs text-center mt-1 text-gray-600">
+                    {isPaused ? '已暂停，点击“继续”接着训练' : '正在学习数据特征...'}
+                </p>
             </div>
         )}
 
+        <div className="flex gap-1 mb-1 text-xs">
+            {(['epoch', 'batch'] as const).map(view => (
+                <button
+                    key={view}
+                    onClick={() => setChartView(view)}
+                    className={`px-2 py-0.5 rounded ${chartView === view ? 'bg-gray-700 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+                >
+                    {view === 'epoch' ? '每轮 (Epoch)' : '每批 (Batch)'}
+                </button>
+            ))}
+        </div>
+        {chartView === 'batch' ? (
+            <BatchChart batchLogs={batchLogs} />
+        ) : (
+        <>
         <div className="h-48 w-full border border-gray-100 rounded p-2">
             <Line options={options} data={chartData} />
         </div>
+        <p className="text-xs text-gray-500 mt-1">实线：训练集 · 虚线：验证集</p>
+        </>
+        )}
+        {chartView === 'epoch' && logs.some(l => l.partial) && (
+            <p className="text-xs text-gray-500 mt-1">* 该轮训练被提前停止，只统计了已完成的批次</p>
+        )}
+        {chartView === 'epoch' && overfittingEpochs.size > 0 && (
+            <p className="text-xs text-orange-600 mt-1">
+                ▲ 第 {[...overfittingEpochs].map(e => e + 1).join('、')} 轮可能出现过拟合：训练损失还在下降，验证损失却回升了。可以试试数据增强、Dropout 或更多训练图片。
+            </p>
+        )}
       </div>
 
       <hr className="border-gray-200 my-4" />
@@ -167,23 +421,10 @@ export const TrainingPanel: React.FC<TrainingPanelProps> = ({
           <div className="bg-indigo-50 p-4 rounded-lg border border-indigo-100 flex-1 overflow-y-auto">
             <div className="text-center mb-4">
                 <span className="text-gray-600 text-sm">我认为这是：</span>
-                <div className="text-5xl font-bold text-indigo-600 mt-1">{prediction.label}</div>
+                <div className="text-5xl font-bold text-indigo-600 mt-1">{classNames[prediction.label] ?? prediction.label}</div>
             </div>
             
-            <div className="space-y-2">
-                {prediction.probabilities.map((prob, idx) => (
-                    <div key={idx} className="flex items-center gap-2 text-xs">
-                        <span className="w-4 font-bold text-gray-500">{idx}</span>
-                        <div className="flex-1 h-4 bg-gray-200 rounded overflow-hidden">
-                            <div 
-                                className="h-full bg-indigo-500 transition-all duration-500"
-                                style={{ width: `${prob * 100}%` }}
-                            ></div>
-                        </div>
-                        <span className="w-10 text-right text-gray-600">{(prob * 100).toFixed(1)}%</span>
-                    </div>
-                ))}
-            </div>
+            <ProbabilityBars probabilities={prediction.probabilities} classNames={classNames} />
           </div>
         ) : (
             <div className="flex-1 flex items-center justify-center text-gray-400 text-sm bg-gray-50 rounded-lg border border-dashed border-gray-300">
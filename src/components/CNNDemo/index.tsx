@@ -1,46 +1,84 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import * as tf from '@tensorflow/tfjs';
-import { InputPanel } from './InputPanel';
+import { InputPanel, InputMode } from './InputPanel';
 import { StructurePanel } from './StructurePanel';
 import { TrainingPanel } from './TrainingPanel';
-import { createModel, trainModel, predict, getActivation, getConv1Weights, imageDataToGrid, preprocessImage } from '../../utils/cnn-model';
-import { MnistData } from '../../utils/mnist-data';
+import { ArchitectureEditor } from './ArchitectureEditor';
+import { ModelStoragePanel } from './ModelStoragePanel';
+import { CustomDatasetPanel } from './CustomDatasetPanel';
+import { AugmentationPanel } from './AugmentationPanel';
+import { EvaluationPanel } from './EvaluationPanel';
+import { MisclassifiedGallery } from './MisclassifiedGallery';
+import { ExperimentsPanel } from './ExperimentsPanel';
+import { Network3DPanel } from './Network3DPanel';
+import { ExplanationPanel } from './ExplanationPanel';
+import { createModel, predict, getFeatureMaps, FeatureMaps, getKernelSnapshot, KernelSnapshot, imageDataToPixels, pixelsToImageData, prepareInputImage, TrainingLogEntry, BatchLogEntry, TrainingConfig, DEFAULT_TRAINING_CONFIG, getBatchesPerEpoch } from '../../utils/cnn-model';
+import { DATASETS, DatasetId, DatasetSource } from '../../utils/dataset-source';
+import { loadDataset, loadDatasetWithFallback } from '../../utils/dataset-loader';
+import { TrainingWorkerClient } from '../../utils/training-client';
+import { ArchitectureSpec, DEFAULT_ARCHITECTURE, adaptArchitecture, analyzeArchitecture, getSpatialLayerNames } from '../../utils/cnn-architecture';
+import { LoadedModel, deleteSavedModel, exportModel, importModel, loadSavedModel, saveModel } from '../../utils/model-storage';
+import { CustomDataset, CustomSample, DataMix, DEFAULT_DATA_MIX } from '../../utils/custom-dataset';
+import { addSample, deleteSample, exportSamples, importSamples, listSamples } from '../../utils/sample-storage';
+import { AugmentationConfig, isAugmentationEnabled } from '../../utils/augmentation';
+import { EvaluationResult, evaluateModel, getTestImagePixels } from '../../utils/evaluation';
+import { Experiment, createExperimentId, deleteExperiment, listExperiments, saveExperiment } from '../../utils/experiment-storage';
+
+// Per-batch results are buffered and handed to React at most this often, so
+// re-rendering the charts never holds up the training messages.
+const BATCH_CHART_INTERVAL_MS = 250;
 
 export const CNNDemo: React.FC = () => {
+  const [architecture, setArchitecture] = useState<ArchitectureSpec>(DEFAULT_ARCHITECTURE);
+  const [isEditingArchitecture, setIsEditingArchitecture] = useState(false);
   const [model, setModel] = useState<tf.LayersModel | null>(null);
-  const [data, setData] = useState<MnistData | null>(null);
+  const [data, setData] = useState<DatasetSource | null>(null);
+  const [dataFallbackReason, setDataFallbackReason] = useState<string | null>(null);
   const [isDataLoading, setIsDataLoading] = useState(true);
   const [isTraining, setIsTraining] = useState(false);
-  const [logs, setLogs] = useState<{ epoch: number; loss: number; acc: number }[]>([]);
+  const [isPaused, setIsPaused] = useState(false);
+  const trainingClientRef = useRef<TrainingWorkerClient | null>(null);
+  const [logs, setLogs] = useState<TrainingLogEntry[]>([]);
+  const [batchLogs, setBatchLogs] = useState<BatchLogEntry[]>([]);
+  // Conv kernels before training and after every epoch, for the kernel timeline
+  const [kernelSnapshots, setKernelSnapshots] = useState<KernelSnapshot[]>([]);
+  const pendingBatchLogs = useRef<BatchLogEntry[]>([]);
+  const batchFlushTimer = useRef<number | null>(null);
   const [currentImage, setCurrentImage] = useState<ImageData | null>(null);
-  const [prediction, setPrediction] = useState<{ label: number; probabilities: number[] } | null>(null);
+  // Set when currentImage is a test image picked from the mistakes gallery
+  const [inspectedTestIndex, setInspectedTestIndex] = useState<number | null>(null);
+  // `image` is the preprocessed image the prediction was made for
+  const [prediction, setPrediction] = useState<{ label: number; probabilities: number[]; image: ImageData } | null>(null);
   const [activeLayer, setActiveLayer] = useState<string | null>(null);
-  const [featureMaps, setFeatureMaps] = useState<{ [key: string]: string[] }>({});
+  const [featureMaps, setFeatureMaps] = useState<{ [key: string]: FeatureMaps }>({});
   const [trainingProgress, setTrainingProgress] = useState(0);
-  
-  // Animation Data
-  const [conv1Weights, setConv1Weights] = useState<{ kernel: number[][], bias: number } | null>(null);
-  const [inputGrid, setInputGrid] = useState<number[][] | null>(null);
+  const [trainingConfig, setTrainingConfig] = useState<TrainingConfig>(DEFAULT_TRAINING_CONFIG);
+  const [inputMode, setInputMode] = useState<InputMode>('predict');
+  const [customSamples, setCustomSamples] = useState<CustomSample[]>([]);
+  const [dataMix, setDataMix] = useState<DataMix>(DEFAULT_DATA_MIX);
+  // Which model (and after how many epochs) the evaluation was run on
+  const [evaluation, setEvaluation] = useState<{ result: EvaluationResult; model: tf.LayersModel; epochs: number } | null>(null);
+  const [isEvaluating, setIsEvaluating] = useState(false);
+  const [evaluationProgress, setEvaluationProgress] = useState(0);
+  const [experiments, setExperiments] = useState<Experiment[]>(() => listExperiments());
+  // The latest training run of each model, whose record gets its test accuracy
+  const experimentIds = useRef(new WeakMap<tf.LayersModel, string>());
 
   // Initialize Model and Data
   useEffect(() => {
     const init = async () => {
       // Create Model
-      const newModel = createModel();
+      const newModel = createModel(architecture);
       setModel(newModel);
-      
-      // Initial weights
-      const weights = getConv1Weights(newModel);
-      setConv1Weights(weights);
 
       // Load Data
       try {
-        const mnistData = new MnistData();
-        await mnistData.load();
-        setData(mnistData);
+        const { source, fallbackReason } = await loadDatasetWithFallback();
+        setData(source);
+        setDataFallbackReason(fallbackReason ?? null);
       } catch (err) {
         console.error("Failed to load MNIST data", err);
-        alert("MNIST 数据加载失败，请检查网络连接。");
+        alert("MNIST 数据加载失败（在线数据和内置数据均不可用）。");
       } finally {
         setIsDataLoading(false);
       }
@@ -48,8 +86,61 @@ export const CNNDemo: React.FC = () => {
     init();
   }, []);
 
+  // What the model sees of the current drawing. Test images are already in
+  // the dataset's format.
+  const preparedImage = useMemo(() => {
+    if (!currentImage || !data) return null;
+    return inspectedTestIndex !== null ? currentImage : prepareInputImage(currentImage, data.info);
+  }, [currentImage, data, inspectedTestIndex]);
+
+  const handleAugmentationChange = (augmentation: AugmentationConfig) => {
+      setTrainingConfig(prev => ({ ...prev, augmentation }));
+  };
+
+  // Each dataset has its own collection of custom samples
+  const datasetId = data?.info.id;
+  useEffect(() => {
+    if (!datasetId) return;
+    let cancelled = false;
+    listSamples(datasetId)
+      .then(samples => { if (!cancelled) setCustomSamples(samples); })
+      .catch(err => console.error("Failed to load custom samples", err));
+    return () => { cancelled = true; };
+  }, [datasetId]);
+
+  // Training on custom samples needs at least one of them
+  useEffect(() => {
+    if (customSamples.length === 0) setDataMix(prev => ({ ...prev, mode: 'dataset' }));
+  }, [customSamples.length]);
+
+  // Stop the training worker when the demo unmounts
+  useEffect(() => {
+    return () => {
+      trainingClientRef.current?.terminate();
+      trainingClientRef.current = null;
+    };
+  }, []);
+
+  // The worker is created on first use and receives its own copy of the data
+  const getTrainingClient = (mnistData: DatasetSource) => {
+    if (!trainingClientRef.current) {
+      const client = new TrainingWorkerClient();
+      client.setData(mnistData);
+      trainingClientRef.current = client;
+    }
+    return trainingClientRef.current;
+  };
+
   const handleStartTraining = async () => {
-    if (!model || !data) return;
+    if (!model || !data || isEvaluating) return;
+    const client = getTrainingClient(data);
+    try {
+      client.setCustomData(dataMix.mode === 'dataset' ? null : new CustomDataset(data.info, customSamples));
+    } catch (err) {
+      console.error("Failed to prepare custom samples", err);
+      alert("自建数据集不可用，请先在“采集”模式下保存一些样本。");
+      return;
+    }
     setIsTraining(true);
     setTrainingProgress(0);
     
@@ -57,63 +148,250 @@ export const CNNDemo: React.FC = () => {
     // Actually, we always append to logs in the UI, but we need to know the epoch offset.
     const initialEpoch = logs.length;
 
+    // Each run is its own experiment, with only its own settings and epochs
+    const config = trainingConfig;
+    const experimentId = createExperimentId();
+    const previousId = experimentIds.current.get(model);
+    const runLogs: TrainingLogEntry[] = [];
+    if (kernelSnapshots.length === 0) setKernelSnapshots([getKernelSnapshot(model, initialEpoch)]);
+
+    // Saved after every epoch, so a closed tab still keeps the finished ones
+    const recordExperiment = () => {
+      if (!data) return;
+      try {
+        const stored = listExperiments();
+        const previous = stored.find(e => e.id === experimentId);
+        const continued = initialEpoch > 0 ? stored.find(e => e.id === previousId) : undefined;
+        const now = Date.now();
+        experimentIds.current.set(model, experimentId);
+        setExperiments(saveExperiment({
+          id: experimentId,
+          name: previous?.name ?? (continued ? `${continued.name}（继续）` : `实验 ${stored.length + 1}`),
+          createdAt: previous?.createdAt ?? now,
+          updatedAt: now,
+          datasetId: data.info.id,
+          architecture,
+          config,
+          dataMix,
+          startEpoch: initialEpoch,
+          logs: runLogs,
+          testAccuracy: previous?.testAccuracy ?? null,
+          testEpochs: previous?.testEpochs ?? 0,
+        }));
+      } catch (err) {
+        console.error("Failed to record experiment", err);
+      }
+    };
+    const batchesPerEpoch = getBatchesPerEpoch(config);
+    const totalBatches = config.epochs * batchesPerEpoch;
+    let completedBatches = 0;
+    let currentEpoch = 0;
+
+    const flushBatchLogs = () => {
+      if (batchFlushTimer.current !== null) {
+        clearTimeout(batchFlushTimer.current);
+        batchFlushTimer.current = null;
+      }
+      const pending = pendingBatchLogs.current;
+      pendingBatchLogs.current = [];
+      if (pending.length > 0) setBatchLogs(prev => [...prev, ...pending]);
+      setTrainingProgress(Math.min(100, (completedBatches / totalBatches) * 100));
+    };
+
+    let failed = false;
     try {
-      await trainModel(
-        model,
-        data,
-        (epoch, log) => {
-          setLogs(prev => [...prev, { 
+      await client.train(model, architecture, config, dataMix, {
+        onEpochEnd: (epoch, log, partial) => {
+          const entry: TrainingLogEntry = {
             epoch: initialEpoch + epoch, 
             loss: log.loss, 
-            acc: log.acc 
-          }]);
-          setTrainingProgress(((epoch + 1) / 5) * 100); // Assuming 5 epochs per run
+            acc: log.acc,
+            ...('val_loss' in log ? { valLoss: log.val_loss, valAcc: log.val_acc } : {}),
+            ...(partial ? { partial } : {})
+          };
+          runLogs.push(entry);
+          setLogs(prev => [...prev, entry]);
+          recordExperiment();
+          completedBatches = (epoch + 1) * batchesPerEpoch;
+          currentEpoch = epoch + 1;
+          flushBatchLogs();
           
-          // Update weights visualization after each epoch
-          const weights = getConv1Weights(model);
-          setConv1Weights(weights);
+          // The main-thread model already holds this epoch's weights
+          const snapshot = getKernelSnapshot(model, entry.epoch + 1);
+          setKernelSnapshots(prev => [...prev, snapshot]);
         },
-        (batch, log) => {
-            // Optional: Update batch progress if needed
+        onBatchEnd: (batch, log) => {
+            completedBatches++;
+            pendingBatchLogs.current.push({
+              epoch: initialEpoch + currentEpoch + (batch + 1) / batchesPerEpoch,
+              loss: log.loss,
+              acc: log.acc,
+            });
+            if (batchFlushTimer.current === null) {
+              batchFlushTimer.current = window.setTimeout(flushBatchLogs, BATCH_CHART_INTERVAL_MS);
+            }
         }
-      );
+      });
     } catch (err) {
       console.error("Training failed", err);
       alert("训练过程中出错");
+      failed = true;
     } finally {
+      flushBatchLogs();
       setIsTraining(false);
+      setIsPaused(false);
       setTrainingProgress(100);
-      // Final weights update
-      const weights = getConv1Weights(model);
-      setConv1Weights(weights);
     }
+
+    // Each run ends with a test-set score for the experiment record
+    if (!failed && runLogs.length > 0) await runEvaluation(model, data, initialEpoch + runLogs.length);
+  };
+
+  const handlePauseTraining = () => {
+      trainingClientRef.current?.pause();
+      setIsPaused(true);
+  };
+
+  const handleResumeTraining = () => {
+      trainingClientRef.current?.resume();
+      setIsPaused(false);
   };
 
+  const handleStopTraining = () => {
+      trainingClientRef.current?.stop();
+      setIsPaused(false);
+  };
+
+  // Everything that replaces the model waits for training and evaluation,
+  // which would otherwise carry on with a disposed model
   const handleReset = () => {
-      if (isTraining) return;
+      if (isTraining || isEvaluating) return;
       if (confirm("确定要重置模型吗？所有训练进度将丢失。")) {
-          const newModel = createModel();
+          const newModel = createModel(architecture);
+          model?.dispose();
           setModel(newModel);
           setLogs([]);
+          setBatchLogs([]);
+          setKernelSnapshots([]);
           setPrediction(null);
           setFeatureMaps({});
-          const weights = getConv1Weights(newModel);
-          setConv1Weights(weights);
+          setActiveLayer(null);
+          setEvaluation(null);
       }
   };
 
+  const handleDatasetChange = async (id: DatasetId) => {
+      if (isTraining || isEvaluating || !data || id === data.info.id) return;
+      if (logs.length > 0 && !confirm("切换数据集会重建模型，当前训练进度将丢失。确定继续吗？")) return;
+      setIsDataLoading(true);
+      try {
+          const { source, fallbackReason } = await loadDataset(id);
+          trainingClientRef.current?.setData(source);
+
+          // Keep the user's layers when they still fit the new image size,
+          // otherwise start again from the default structure
+          const { imageShape, classNames } = source.info;
+          let spec = adaptArchitecture(architecture, imageShape, classNames.length);
+          if (!analyzeArchitecture(spec, classNames.length).isValid) {
+              spec = adaptArchitecture(DEFAULT_ARCHITECTURE, imageShape, classNames.length);
+          }
+          const newModel = createModel(spec);
+          model?.dispose();
+
+          setData(source);
+          setDataFallbackReason(fallbackReason ?? null);
+          setArchitecture(spec);
+          setModel(newModel);
+          setLogs([]);
+          setBatchLogs([]);
+          setKernelSnapshots([]);
+          setPrediction(null);
+          setFeatureMaps({});
+          setActiveLayer(null);
+          setCurrentImage(null);
+          setInspectedTestIndex(null);
+          setEvaluation(null);
+      } catch (err) {
+          console.error(`Failed to load dataset ${id}`, err);
+          const message = err instanceof Error ? err.message : String(err);
+          alert(`${DATASETS[id].name} 加载失败：${message}\n离线数据集需要先放到 public/datasets/ 目录下（见 YOUWARE.md）。`);
+      } finally {
+          setIsDataLoading(false);
+      }
+  };
+
+  const handleApplyArchitecture = (spec: ArchitectureSpec) => {
+      if (isTraining || isEvaluating) return;
+      if (logs.length > 0 && !confirm("修改结构会重建模型，当前训练进度将丢失。确定继续吗？")) return;
+      const newModel = createModel(spec);
+      model?.dispose();
+      setArchitecture(spec);
+      setModel(newModel);
+      setLogs([]);
+      setBatchLogs([]);
+      setKernelSnapshots([]);
+      setPrediction(null);
+      setFeatureMaps({});
+      setActiveLayer(null);
+      setInspectedTestIndex(null);
+      setEvaluation(null);
+  };
+
+  const applyLoadedModel = ({ model: loadedModel, architecture: loadedArchitecture, logs: loadedLogs }: LoadedModel) => {
+      model?.dispose();
+      setArchitecture(loadedArchitecture);
+      setModel(loadedModel);
+      setLogs(loadedLogs);
+      setBatchLogs([]);
+      setKernelSnapshots([]);
+      setPrediction(null);
+      setFeatureMaps({});
+      setActiveLayer(null);
+      setInspectedTestIndex(null);
+      setEvaluation(null);
+      setIsEditingArchitecture(false);
+  };
+
+  // A model only makes sense on the dataset it was trained on
+  const checkLoadedDataset = (loaded: LoadedModel) => {
+      if (data && loaded.datasetId !== data.info.id) {
+          loaded.model.dispose();
+          throw new Error(`该模型是在「${DATASETS[loaded.datasetId].name}」上训练的，请先切换到这个数据集`);
+      }
+      return loaded;
+  };
+
+  const handleSaveModel = async (name: string) => {
+      if (!model || !data) return;
+      await saveModel(model, name, architecture, logs, data.info.id);
+  };
+
+  const handleLoadModel = async (name: string) => {
+      if (isTraining || isEvaluating) return;
+      if (logs.length > 0 && !confirm("加载模型会替换当前模型，当前训练进度将丢失。确定继续吗？")) return;
+      applyLoadedModel(checkLoadedDataset(await loadSavedModel(name)));
+  };
+
+  const handleExportModel = async (name: string) => {
+      if (!model || !data) return;
+      await exportModel(model, name, architecture, logs, data.info.id);
+  };
+
+  const handleImportModel = async (files: File[]) => {
+      if (isTraining || isEvaluating) return;
+      if (logs.length > 0 && !confirm("导入模型会替换当前模型，当前训练进度将丢失。确定继续吗？")) return;
+      applyLoadedModel(checkLoadedDataset(await importModel(files)));
+  };
+
   const handleImageReady = (imageData: ImageData) => {
     setCurrentImage(imageData);
+    setInspectedTestIndex(null);
     setPrediction(null); // Reset prediction when image changes
     setFeatureMaps({});
-    
-    // Update input grid for animation (Center 10x10)
-    const grid = imageDataToGrid(imageData, 10);
-    setInputGrid(grid);
   };
 
   const handlePredict = async () => {
-    if (!model || !currentImage) {
+    if (!model || !data || !preparedImage) {
         alert("请先绘制或上传图片！");
         return;
     }
@@ -122,65 +400,91 @@ export const CNNDemo: React.FC = () => {
         alert("模型尚未训练，预测结果可能不准确（随机猜测）。建议先点击“开始训练”。");
     }
 
-    // 0. Preprocess (Center the digit)
-    const processedImage = preprocessImage(currentImage);
+    await runPrediction(model, preparedImage);
+  };
 
+  // Shows the model's answer, feature maps and conv animation for a test
+  // image the model gets wrong
+  const handleInspectTestImage = async (index: number) => {
+    if (!model || !data) return;
+    const [h, w, c] = data.info.imageShape;
+    const image = pixelsToImageData(getTestImagePixels(data.getSplits(), index), w, h, c);
+    setCurrentImage(image);
+    setInspectedTestIndex(index);
+    await runPrediction(model, image);
+  };
+
+  // processedImage is already centred / resized like the dataset's images
+  const runPrediction = async (model: tf.LayersModel, processedImage: ImageData) => {
     // 1. Predict
     const probs = await predict(model, processedImage) as Float32Array;
     const probabilities = Array.from(probs);
     const label = probabilities.indexOf(Math.max(...probabilities));
-    setPrediction({ label, probabilities });
+    setPrediction({ label, probabilities, image: processedImage });
 
     // 2. Generate Feature Maps for visualization
     await generateFeatureMaps(model, processedImage);
   };
 
+  const handleAddSample = async (label: number) => {
+      if (!data || !preparedImage) return;
+      const pixels = imageDataToPixels(preparedImage, data.info.imageShape[2]);
+      const sample = await addSample(data.info.id, label, pixels);
+      setCustomSamples(prev => [...prev, sample]);
+  };
+
+  const handleDeleteSample = async (id: number) => {
+      await deleteSample(id);
+      setCustomSamples(prev => prev.filter(s => s.id !== id));
+  };
+
+  const handleImportSamples = async (file: File) => {
+      if (!data) return;
+      const count = await importSamples(data.info.id, file);
+      setCustomSamples(await listSamples(data.info.id));
+      alert(`已导入 ${count} 个样本`);
+  };
+
+  const runEvaluation = async (model: tf.LayersModel, data: DatasetSource, epochs: number) => {
+      setIsEvaluating(true);
+      setEvaluationProgress(0);
+      try {
+          const result = await evaluateModel(model, data, (done, total) => setEvaluationProgress((done / total) * 100));
+          setEvaluation({ result, model, epochs });
+
+          const experiment = listExperiments().find(e => e.id === experimentIds.current.get(model));
+          if (experiment) {
+              setExperiments(saveExperiment({ ...experiment, testAccuracy: result.accuracy, testEpochs: epochs }));
+          }
+      } catch (err) {
+          console.error("Evaluation failed", err);
+          alert("评估过程中出错");
+      } finally {
+          setIsEvaluating(false);
+      }
+  };
+
+  const handleEvaluate = () => {
+      if (!model || !data || isTraining) return;
+      runEvaluation(model, data, logs.length);
+  };
+
+  const handleRenameExperiment = (id: string, name: string) => {
+      const experiment = listExperiments().find(e => e.id === id);
+      if (experiment) setExperiments(saveExperiment({ ...experiment, name }));
+  };
+
+  const handleDeleteExperiment = (id: string) => {
+      setExperiments(deleteExperiment(id));
+  };
+
   const generateFeatureMaps = async (model: tf.LayersModel, imageData: ImageData) => {
-    const layersToVisualize = ['conv1', 'pool1', 'conv2', 'pool2'];
-    const newFeatureMaps: { [key: string]: string[] } = {};
+    const layersToVisualize = getSpatialLayerNames(architecture);
+    const newFeatureMaps: { [key: string]: FeatureMaps } = {};
 
     for (const layerName of layersToVisualize) {
         try {
-            const activation = getActivation(model, layerName, imageData);
-            // activation shape: [1, h, w, filters]
-            const [b, h, w, filters] = activation.shape;
-            
-            const layerMaps: string[] = [];
-            // Extract first 8 filters max
-            const numFiltersToShow = Math.min(filters, 8);
-            
-            const activationData = activation.dataSync();
-            
-            for (let f = 0; f < numFiltersToShow; f++) {
-                const canvas = document.createElement('canvas');
-                canvas.width = w;
-                canvas.height = h;
-                const ctx = canvas.getContext('2d');
-                if (ctx) {
-                    const imgData = ctx.createImageData(w, h);
-                    // Find min/max for normalization
-                    let min = Infinity, max = -Infinity;
-                    for (let i = 0; i < h * w; i++) {
-                        const val = activationData[i * filters + f];
-                        if (val < min) min = val;
-                        if (val > max) max = val;
-                    }
-                    const range = max - min + 0.00001;
-
-                    for (let i = 0; i < h * w; i++) {
-                        const val = activationData[i * filters + f];
-                        const normVal = Math.floor(((val - min) / range) * 255);
-                        imgData.data[i * 4 + 0] = normVal; // R
-                        imgData.data[i * 4 + 1] = normVal; // G
-                        imgData.data[i * 4 + 2] = normVal; // B
-                        imgData.data[i * 4 + 3] = 255;     // Alpha
-                    }
-                    ctx.putImageData(imgData, 0, 0);
-                    layerMaps.push(canvas.toDataURL());
-                }
-            }
-            newFeatureMaps[layerName] = layerMaps;
-            activation.dispose();
+            newFeatureMaps[layerName] = getFeatureMaps(model, layerName, imageData);
         } catch (e) {
             console.log(`Layer ${layerName} not found or error`, e);
         }
@@ -193,53 +497,204 @@ export const CNNDemo: React.FC = () => {
       <header className="mb-6 text-center">
         <h1 className="text-3xl font-extrabold text-indigo-700">AI 芯片课程：卷积神经网络 (CNN) 可视化</h1>
         <p className="text-gray-600 mt-2">像科学家一样观察 AI 是如何“看”懂图片的</p>
+        {data && (
+            <div className="mt-3 flex items-center justify-center gap-2 text-sm text-gray-700">
+                <span>数据集 (Dataset)：</span>
+                <select
+                    value={data.info.id}
+                    onChange={(e) => handleDatasetChange(e.target.value as DatasetId)}
+                    disabled={isTraining || isEvaluating || isDataLoading}
+                    className="border rounded px-2 py-1 bg-white"
+                >
+                    {Object.values(DATASETS).map(info => (
+                        <option key={info.id} value={info.id}>{info.name}</option>
+                    ))}
+                </select>
+            </div>
+        )}
+        {data && (
+            <div
+                className={`inline-block mt-2 px-3 py-1 rounded-full text-xs ${data.id === 'remote' ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-800'}`}
+                title={dataFallbackReason ? `在线数据加载失败：${dataFallbackReason}` : undefined}
+            >
+                数据来源：{data.label}（训练 {data.numTrainElements} 张 / 测试 {data.numTestElements} 张）
+                {dataFallbackReason && ' · 网络不可用，已自动切换'}
+            </div>
+        )}
       </header>
 
       {isDataLoading ? (
         <div className="flex items-center justify-center h-64">
-          <div className="text-xl text-gray-600 animate-pulse">正在加载 AI 引擎和数据... (Loading MNIST)</div>
+          <div className="text-xl text-gray-600 animate-pulse">正在加载 AI 引擎和数据... (Loading data)</div>
         </div>
       ) : (
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 h-[800px]">
           {/* Left: Input (3 cols) */}
-          <div className="lg:col-span-3 h-full">
-            <InputPanel onImageReady={handleImageReady} disabled={isTraining} />
+          <div className="lg:col-span-3 h-full overflow-y-auto">
+            {data && (
+              <InputPanel
+                  key={data.info.id}
+                  onImageReady={handleImageReady}
+                  disabled={isTraining}
+                  imageShape={data.info.imageShape}
+                  inputStyle={data.info.inputStyle}
+                  hint={data.info.inputHint}
+                  mode={inputMode}
+                  onModeChange={setInputMode}
+                  classNames={data.info.classNames}
+                  onAddSample={handleAddSample}
+                  displayImage={inspectedTestIndex !== null ? currentImage : null}
+              />
+            )}
+
+            {data && inputMode === 'collect' && (
+              <CustomDatasetPanel
+                  samples={customSamples}
+                  classNames={data.info.classNames}
+                  imageShape={data.info.imageShape}
+                  disabled={isTraining}
+                  onDelete={handleDeleteSample}
+                  onExport={() => exportSamples(data.info.id, customSamples)}
+                  onImport={handleImportSamples}
+              />
+            )}
             
             <div className="mt-4 bg-yellow-50 p-4 rounded-lg border border-yellow-200 text-sm text-yellow-800">
                 <strong>💡 提高准确率小贴士：</strong>
                 <ul className="list-disc pl-4 mt-1 space-y-1">
-                    <li>尽量将数字写在<b>正中间</b></li>
+                    <li>尽量将数字或图案画在<b>正中间</b></li>
                     <li>字迹要<b>粗一点</b>、大一点</li>
                     <li>如果识别不准，可以点击<b>“继续训练”</b>让 AI 多学几遍</li>
+                    {isAugmentationEnabled(trainingConfig.augmentation) && (
+                        <li>已开启<b>数据增强</b>：AI 练习过歪斜、偏移的图片，写得不正也更容易认出来</li>
+                    )}
                 </ul>
             </div>
+
+            {data && (
+              <AugmentationPanel
+                  config={trainingConfig.augmentation}
+                  onChange={handleAugmentationChange}
+                  disabled={isTraining}
+                  data={data}
+                  sourceImage={preparedImage}
+              />
+            )}
+
+            <ModelStoragePanel
+                disabled={isTraining || isEvaluating || !model}
+                onSave={handleSaveModel}
+                onLoad={handleLoadModel}
+                onDelete={deleteSavedModel}
+                onExport={handleExportModel}
+                onImport={handleImportModel}
+            />
           </div>
 
           {/* Middle: Structure (5 cols) */}
           <div className="lg:col-span-5 h-full">
+            {isEditingArchitecture ? (
+              <ArchitectureEditor
+                  architecture={architecture}
+                  numClasses={data?.info.classNames.length ?? 10}
+                  disabled={isTraining || isEvaluating}
+                  onApply={handleApplyArchitecture}
+                  onClose={() => setIsEditingArchitecture(false)}
+              />
+            ) : (
             <StructurePanel 
+                architecture={architecture}
                 activeLayer={activeLayer} 
                 onLayerClick={setActiveLayer} 
                 featureMaps={featureMaps}
-                conv1Weights={conv1Weights}
-                inputGrid={inputGrid}
+                inputImage={preparedImage}
+                onEditArchitecture={() => setIsEditingArchitecture(true)}
+                model={model}
+                classNames={data?.info.classNames}
+                kernelSnapshots={kernelSnapshots}
+                modelVersion={logs.length}
             />
+            )}
           </div>
 
           {/* Right: Training & Result (4 cols) */}
           <div className="lg:col-span-4 h-full">
             <TrainingPanel 
                 isTraining={isTraining}
+                isEvaluating={isEvaluating}
                 logs={logs}
+                batchLogs={batchLogs}
+                isPaused={isPaused}
                 onStartTraining={handleStartTraining}
+                onPauseTraining={handlePauseTraining}
+                onResumeTraining={handleResumeTraining}
+                onStopTraining={handleStopTraining}
                 onReset={handleReset}
                 onPredict={handlePredict}
                 prediction={prediction}
+                classNames={data?.info.classNames ?? []}
                 trainingProgress={trainingProgress}
+                trainingConfig={trainingConfig}
+                onTrainingConfigChange={setTrainingConfig}
+                dataMix={dataMix}
+                onDataMixChange={setDataMix}
+                customSampleCount={customSamples.length}
             />
           </div>
         </div>
       )}
+
+      {!isDataLoading && data && (
+        <ExplanationPanel
+            model={model}
+            image={prediction?.image ?? null}
+            probabilities={prediction?.probabilities ?? null}
+            classNames={data.info.classNames}
+            imageShape={data.info.imageShape}
+            version={logs.length}
+        />
+      )}
+
+      {!isDataLoading && data && (
+        <EvaluationPanel
+            data={data}
+            result={evaluation?.result ?? null}
+            isStale={!!evaluation && (evaluation.model !== model || evaluation.epochs !== logs.length)}
+            isEvaluating={isEvaluating}
+            progress={evaluationProgress}
+            disabled={isTraining || !model}
+            onEvaluate={handleEvaluate}
+        />
+      )}
+
+      {!isDataLoading && data && evaluation && (
+        <MisclassifiedGallery
+            data={data}
+            result={evaluation.result}
+            selectedIndex={inspectedTestIndex}
+            probabilities={inspectedTestIndex !== null ? prediction?.probabilities ?? null : null}
+            disabled={isTraining || !model}
+            onSelect={handleInspectTestImage}
+        />
+      )}
+
+      <ExperimentsPanel
+          experiments={experiments}
+          currentId={model ? experimentIds.current.get(model) ?? null : null}
+          disabled={isTraining}
+          onRename={handleRenameExperiment}
+          onDelete={handleDeleteExperiment}
+      />
+
+      {!isDataLoading && data && (
+        <Network3DPanel
+            model={model}
+            architecture={architecture}
+            featureMaps={featureMaps}
+            prediction={prediction}
+            classNames={data.info.classNames}
+        />
+      )}
     </div>
   );
 };
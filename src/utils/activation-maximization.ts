@@ -0,0 +1,102 @@
+import * as tf from '@tensorflow/tfjs';
+import { getModelInputShape } from './cnn-model';
+import { applyLayers, classScores } from './explanations';
+
+// Activation maximization: start from noise and change the input image, by
+// gradient ascent, until one unit fires as strongly as possible. The result
+// is the "ideal input" of a conv filter or an output class. All requested
+// units are optimized together as one batch, one image per unit.
+
+export interface ActivationMaximizationOptions {
+  steps: number;
+  learningRate: number; // Step size, in pixel values, of each normalised gradient step
+  l2: number;           // Pulls pixels towards mid-grey, so only useful ones stand out
+  smoothness: number;   // Total variation penalty, against high-frequency noise
+}
+
+export const DEFAULT_ACTIVATION_MAXIMIZATION: ActivationMaximizationOptions = {
+  steps: 160,
+  learningRate: 0.04,
+  l2: 0.05,
+  smoothness: 0.3,
+};
+
+// Progress is reported (and the browser gets a frame) this often
+const STEPS_PER_FRAME = 4;
+
+// Number of units (filters or classes) in a layer's output
+export function getUnitCount(model: tf.LayersModel, layerName: string) {
+  const shape = model.getLayer(layerName).outputShape as number[];
+  return shape[shape.length - 1];
+}
+
+// [n] activation of unit units[i] for image i: spatial mean for conv
+// layers, the pre-softmax score for the output layer
+function unitActivations(model: tf.LayersModel, layerIndex: number, x: tf.Tensor4D, units: number[]) {
+  const isOutput = layerIndex === model.layers.length - 1;
+  let output = isOutput ? classScores(model, x) : applyLayers(model, x, 0, layerIndex + 1);
+  if (output.rank === 4) output = output.mean([1, 2]);
+  const mask = tf.oneHot(units, output.shape[1]!);
+  return output.mul(mask).sum(1);
+}
+
+function totalVariation(x: tf.Tensor4D) {
+  const [, h, w] = x.shape;
+  const dy = x.slice([0, 1, 0, 0], [-1, h - 1, -1, -1]).sub(x.slice([0, 0, 0, 0], [-1, h - 1, -1, -1]));
+  const dx = x.slice([0, 0, 1, 0], [-1, -1, w - 1, -1]).sub(x.slice([0, 0, 0, 0], [-1, -1, w - 1, -1]));
+  return dy.abs().mean([1, 2, 3]).add(dx.abs().mean([1, 2, 3]));
+}
+
+// Stretches each image to the full 0-1 range for display
+function stretch(x: tf.Tensor4D) {
+  const min = x.min([1, 2, 3], true);
+  const max = x.max([1, 2, 3], true);
+  return x.sub(min).div(tf.maximum(max.sub(min), 1e-8));
+}
+
+// Returns one [h, w, channels] image with values 0-1 per unit, or null when
+// `signal` is aborted (e.g. because the model was replaced).
+export async function maximizeActivation(
+  model: tf.LayersModel,
+  layerName: string,
+  units: number[],
+  onProgress?: (step: number, total: number) => void,
+  signal?: AbortSignal,
+  options: ActivationMaximizationOptions = DEFAULT_ACTIVATION_MAXIMIZATION
+): Promise<Float32Array[] | null> {
+  const layerIndex = model.layers.findIndex(l => l.name === layerName);
+  if (layerIndex < 0) throw new Error(`Layer "${layerName}" not found`);
+  const { steps, learningRate, l2, smoothness } = options;
+  const [h, w, c] = getModelInputShape(model);
+
+  const objective = (x: tf.Tensor) => {
+    const image = x as tf.Tensor4D;
+    const penalty = image.sub(0.5).square().mean([1, 2, 3]).mul(l2).add(totalVariation(image).mul(smoothness));
+    return unitActivations(model, layerIndex, image, units).sub(penalty).sum();
+  };
+  const gradient = tf.grad(objective);
+
+  let x = tf.randomUniform([units.length, h, w, c], 0.4, 0.6) as tf.Tensor4D;
+  try {
+    for (let step = 0; step < steps; step++) {
+      if (signal?.aborted) return null;
+      const next = tf.tidy(() => {
+        const g = gradient(x);
+        // Normalised per image, so every unit moves at the same pace
+        const norm = g.square().mean([1, 2, 3], true).sqrt().add(1e-8);
+        return x.add(g.div(norm).mul(learningRate)).clipByValue(0, 1) as tf.Tensor4D;
+      });
+      x.dispose();
+      x = next;
+      if ((step + 1) % STEPS_PER_FRAME === 0) {
+        onProgress?.(step + 1, steps);
+        await tf.nextFrame();
+      }
+    }
+    const images = tf.tidy(() => stretch(x).dataSync() as Float32Array);
+    const size = h * w * c;
+    return units.map((_, i) => images.slice(i * size, (i + 1) * size));
+  } finally {
+    x.dispose();
+  }
+}
@@ -0,0 +1,158 @@
+// Random distortions applied to training images, so the model also learns
+// digits that are off-centre, tilted, thin or thick. Images are flattened
+// [h, w, channels] Float32Arrays with values 0-1, as built by `nextBatch`.
+
+export interface AugmentationConfig {
+  rotation: number;    // Max rotation in degrees, either direction
+  translation: number; // Max shift as a fraction of the image size
+  scale: number;       // Max zoom in or out, e.g. 0.1 = 90%-110%
+  elastic: number;     // Max elastic displacement in pixels
+  thickening: number;  // Probability that the strokes are made thicker
+  noise: number;       // Standard deviation of added Gaussian noise
+}
+
+export const NO_AUGMENTATION: AugmentationConfig = {
+  rotation: 0,
+  translation: 0,
+  scale: 0,
+  elastic: 0,
+  thickening: 0,
+  noise: 0,
+};
+
+export const RECOMMENDED_AUGMENTATION: AugmentationConfig = {
+  rotation: 15,
+  translation: 0.1,
+  scale: 0.1,
+  elastic: 1.5,
+  thickening: 0.3,
+  noise: 0.05,
+};
+
+export function isAugmentationEnabled(config: AugmentationConfig) {
+  return Object.values(config).some(v => v > 0);
+}
+
+type Random = () => number;
+
+// Uniform in [-max, max]
+function spread(random: Random, max: number) {
+  return (random() * 2 - 1) * max;
+}
+
+function gaussian(random: Random) {
+  const u = 1 - random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+// 3x3 grayscale dilation: every pixel takes the brightest neighbour.
+function thicken(src: Float32Array, h: number, w: number, c: number) {
+  const out = new Float32Array(src.length);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      for (let ch = 0; ch < c; ch++) {
+        let max = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const yy = y + dy, xx = x + dx;
+            if (yy < 0 || yy >= h || xx < 0 || xx >= w) continue;
+            max = Math.max(max, src[(yy * w + xx) * c + ch]);
+          }
+        }
+        out[(y * w + x) * c + ch] = max;
+      }
+    }
+  }
+  return out;
+}
+
+// A smooth random displacement field: random offsets on a coarse grid,
+// bilinearly interpolated to every pixel.
+const ELASTIC_GRID = 4;
+
+function elasticField(h: number, w: number, strength: number, random: Random) {
+  const grid = (ELASTIC_GRID + 1) * (ELASTIC_GRID + 1);
+  const gx = Array.from({ length: grid }, () => spread(random, strength));
+  const gy = Array.from({ length: grid }, () => spread(random, strength));
+  const dx = new Float32Array(h * w);
+  const dy = new Float32Array(h * w);
+  for (let y = 0; y < h; y++) {
+    const fy = (y / (h - 1)) * ELASTIC_GRID;
+    const y0 = Math.min(Math.floor(fy), ELASTIC_GRID - 1), ty = fy - y0;
+    for (let x = 0; x < w; x++) {
+      const fx = (x / (w - 1)) * ELASTIC_GRID;
+      const x0 = Math.min(Math.floor(fx), ELASTIC_GRID - 1), tx = fx - x0;
+      const i00 = y0 * (ELASTIC_GRID + 1) + x0, i01 = i00 + 1;
+      const i10 = i00 + ELASTIC_GRID + 1, i11 = i10 + 1;
+      const lerp = (g: number[]) =>
+        (g[i00] * (1 - tx) + g[i01] * tx) * (1 - ty) + (g[i10] * (1 - tx) + g[i11] * tx) * ty;
+      dx[y * w + x] = lerp(gx);
+      dy[y * w + x] = lerp(gy);
+    }
+  }
+  return { dx, dy };
+}
+
+// Bilinear sample; outside the image is black, like the MNIST background.
+function sample(src: Float32Array, h: number, w: number, c: number, x: number, y: number, ch: number) {
+  const x0 = Math.floor(x), y0 = Math.floor(y);
+  const tx = x - x0, ty = y - y0;
+  const at = (xx: number, yy: number) =>
+    xx < 0 || xx >= w || yy < 0 || yy >= h ? 0 : src[(yy * w + xx) * c + ch];
+  return (at(x0, y0) * (1 - tx) + at(x0 + 1, y0) * tx) * (1 - ty)
+    + (at(x0, y0 + 1) * (1 - tx) + at(x0 + 1, y0 + 1) * tx) * ty;
+}
+
+export function augmentImage(
+  image: Float32Array,
+  [h, w, c]: [number, number, number],
+  config: AugmentationConfig,
+  random: Random = Math.random
+): Float32Array {
+  let src = image;
+  if (config.thickening > 0 && random() < config.thickening) src = thicken(src, h, w, c);
+
+  const angle = (spread(random, config.rotation) * Math.PI) / 180;
+  const zoom = 1 + spread(random, config.scale);
+  const shiftX = spread(random, config.translation) * w;
+  const shiftY = spread(random, config.translation) * h;
+  const field = config.elastic > 0 ? elasticField(h, w, config.elastic, random) : null;
+
+  // Inverse mapping: for every output pixel, find where it comes from.
+  const cos = Math.cos(angle) / zoom, sin = Math.sin(angle) / zoom;
+  const cx = (w - 1) / 2, cy = (h - 1) / 2;
+  const out = new Float32Array(image.length);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const px = x - cx - shiftX, py = y - cy - shiftY;
+      let sx = cos * px + sin * py + cx;
+      let sy = -sin * px + cos * py + cy;
+      if (field) {
+        sx += field.dx[y * w + x];
+        sy += field.dy[y * w + x];
+      }
+      for (let ch = 0; ch < c; ch++) {
+        let v = sample(src, h, w, c, sx, sy, ch);
+        if (config.noise > 0) v += gaussian(random) * config.noise;
+        out[(y * w + x) * c + ch] = Math.min(1, Math.max(0, v));
+      }
+    }
+  }
+  return out;
+}
+
+// Augments `count` images stored back to back, each one differently.
+export function augmentImages(
+  images: Float32Array,
+  count: number,
+  shape: [number, number, number],
+  config: AugmentationConfig,
+  random: Random = Math.random
+): Float32Array {
+  const size = shape[0] * shape[1] * shape[2];
+  const out = new Float32Array(count * size);
+  for (let i = 0; i < count; i++) {
+    out.set(augmentImage(images.subarray(i * size, (i + 1) * size), shape, config, random), i * size);
+  }
+  return out;
+}
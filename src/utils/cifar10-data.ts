@@ -0,0 +1,57 @@
+import { DATASETS } from './dataset-source';
+import { InMemoryDataset } from './in-memory-dataset';
+import { fetchBytes } from './idx-data';
+
+// The CIFAR-10 binary version: every record is 1 label byte followed by
+// 1024 red, 1024 green and 1024 blue bytes (row-major 32x32 planes).
+const RECORD_SIZE = 1 + 32 * 32 * 3;
+const PLANE_SIZE = 32 * 32;
+
+// Each batch file holds 10000 images. Loading two of the five training
+// batches keeps the page (and the training worker's copy) around 60 MB.
+const TRAIN_BATCH_FILES = ['data_batch_1.bin', 'data_batch_2.bin'];
+const TEST_BATCH_FILE = 'test_batch.bin';
+
+const BASE_URL = 'datasets/cifar-10-batches-bin/';
+
+function decodeBatches(batches: Uint8Array[], numClasses: number) {
+  const count = batches.reduce((sum, b) => sum + b.length / RECORD_SIZE, 0);
+  const images = new Uint8Array(count * PLANE_SIZE * 3);
+  const labels = new Uint8Array(count * numClasses);
+
+  let n = 0;
+  for (const batch of batches) {
+    for (let r = 0; r < batch.length / RECORD_SIZE; r++, n++) {
+      const record = r * RECORD_SIZE;
+      labels[n * numClasses + batch[record]] = 1;
+      // Planar RGB -> interleaved [h, w, channels], as tf.browser.fromPixels produces
+      for (let p = 0; p < PLANE_SIZE; p++) {
+        for (let c = 0; c < 3; c++) {
+          images[(n * PLANE_SIZE + p) * 3 + c] = batch[record + 1 + c * PLANE_SIZE + p];
+        }
+      }
+    }
+  }
+  return { images, labels };
+}
+
+// The binary batches are not hosted anywhere with CORS headers, so
+// cifar-10-binary.tar.gz has to be extracted into public/datasets/ first.
+export class Cifar10Data extends InMemoryDataset {
+  constructor() {
+    super(DATASETS.cifar10, 'static', 'CIFAR-10 (public/datasets/cifar-10-batches-bin)');
+  }
+
+  async load() {
+    const [trainBatches, testBatch] = await Promise.all([
+      Promise.all(TRAIN_BATCH_FILES.map(file => fetchBytes(BASE_URL + file))),
+      fetchBytes(BASE_URL + TEST_BATCH_FILE),
+    ]);
+    for (const batch of [...trainBatches, testBatch]) {
+      if (batch.length % RECORD_SIZE !== 0) throw new Error('Not a CIFAR-10 binary batch file');
+    }
+    const train = decodeBatches(trainBatches, this.numClasses);
+    const test = decodeBatches([testBatch], this.numClasses);
+    this.setSplits(train.images, train.labels, test.images, test.labels);
+  }
+}
@@ -0,0 +1,347 @@
+import { z } from 'zod';
+
+// Declarative description of the network. `createModel` builds the
+// tf.sequential model from it, and the UI (structure panel, feature maps,
+// layer descriptions) reads the same spec, so the two can never disagree.
+
+export const ActivationSchema = z.enum(['relu', 'sigmoid', 'tanh', 'linear', 'softmax']);
+
+export const PaddingSchema = z.enum(['valid', 'same']);
+
+const layerName = z.string().min(1).regex(/^[A-Za-z][\w-]*$/, 'Layer name must be a valid identifier');
+
+export const Conv2DLayerSchema = z.object({
+  kind: z.literal('conv2d'),
+  name: layerName,
+  filters: z.number().int().positive(),
+  kernelSize: z.number().int().positive(),
+  strides: z.number().int().positive().default(1),
+  padding: PaddingSchema.default('valid'),
+  activation: ActivationSchema.default('relu'),
+});
+
+export const MaxPooling2DLayerSchema = z.object({
+  kind: z.literal('maxPooling2d'),
+  name: layerName,
+  poolSize: z.number().int().positive(),
+  strides: z.number().int().positive(),
+  padding: PaddingSchema.default('valid'),
+});
+
+export const AveragePooling2DLayerSchema = z.object({
+  kind: z.literal('averagePooling2d'),
+  name: layerName,
+  poolSize: z.number().int().positive(),
+  strides: z.number().int().positive(),
+  padding: PaddingSchema.default('valid'),
+});
+
+export const DropoutLayerSchema = z.object({
+  kind: z.literal('dropout'),
+  name: layerName,
+  rate: z.number().min(0).lt(1),
+});
+
+export const BatchNormLayerSchema = z.object({
+  kind: z.literal('batchNormalization'),
+  name: layerName,
+});
+
+export const FlattenLayerSchema = z.object({
+  kind: z.literal('flatten'),
+  name: layerName,
+});
+
+export const DenseLayerSchema = z.object({
+  kind: z.literal('dense'),
+  name: layerName,
+  units: z.number().int().positive(),
+  activation: ActivationSchema.default('linear'),
+});
+
+export const LayerSpecSchema = z.discriminatedUnion('kind', [
+  Conv2DLayerSchema,
+  MaxPooling2DLayerSchema,
+  AveragePooling2DLayerSchema,
+  DropoutLayerSchema,
+  BatchNormLayerSchema,
+  FlattenLayerSchema,
+  DenseLayerSchema,
+]);
+
+export const ArchitectureSpecSchema = z.object({
+  inputShape: z.tuple([
+    z.number().int().positive(),
+    z.number().int().positive(),
+    z.number().int().positive(),
+  ]),
+  layers: z.array(LayerSpecSchema).min(1),
+}).superRefine((spec, ctx) => {
+  const seen = new Set<string>();
+  spec.layers.forEach((layer, i) => {
+    if (seen.has(layer.name)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['layers', i, 'name'],
+        message: `Duplicate layer name "${layer.name}"`,
+      });
+    }
+    seen.add(layer.name);
+  });
+});
+
+export type Activation = z.infer<typeof ActivationSchema>;
+export type Padding = z.infer<typeof PaddingSchema>;
+export type LayerSpec = z.infer<typeof LayerSpecSchema>;
+export type LayerKind = LayerSpec['kind'];
+export type ArchitectureSpec = z.infer<typeof ArchitectureSpecSchema>;
+
+export const DEFAULT_ARCHITECTURE: ArchitectureSpec = {
+  inputShape: [28, 28, 1],
+  layers: [
+    { kind: 'conv2d', name: 'conv1', filters: 8, kernelSize: 5, strides: 1, padding: 'valid', activation: 'relu' },
+    { kind: 'maxPooling2d', name: 'pool1', poolSize: 2, strides: 2, padding: 'valid' },
+    { kind: 'conv2d', name: 'conv2', filters: 16, kernelSize: 5, strides: 1, padding: 'valid', activation: 'relu' },
+    { kind: 'maxPooling2d', name: 'pool2', poolSize: 2, strides: 2, padding: 'valid' },
+    { kind: 'flatten', name: 'flatten' },
+    { kind: 'dense', name: 'output', units: 10, activation: 'softmax' },
+  ],
+};
+
+// Throws a ZodError describing every problem if the spec is malformed.
+export function parseArchitecture(spec: unknown): ArchitectureSpec {
+  return ArchitectureSpecSchema.parse(spec);
+}
+
+// Layers whose output is still an image-like [h, w, channels] map and can
+// therefore be drawn as feature maps.
+export function getSpatialLayerNames(spec: ArchitectureSpec): string[] {
+  const names: string[] = [];
+  for (const layer of spec.layers) {
+    if (layer.kind === 'flatten' || layer.kind === 'dense') break;
+    names.push(layer.name);
+  }
+  return names;
+}
+
+// Points an existing architecture at a dataset with a different image shape
+// or number of classes: the input shape and the output layer's units change,
+// everything in between is kept.
+export function adaptArchitecture(
+  spec: ArchitectureSpec,
+  inputShape: [number, number, number],
+  numClasses: number
+): ArchitectureSpec {
+  const layers = spec.layers.map((layer, i) =>
+    i === spec.layers.length - 1 && layer.kind === 'dense' ? { ...layer, units: numClasses } : layer
+  );
+  return { inputShape, layers };
+}
+
+// One-line summary such as "C8(5) → MP2 → D10", short enough for a table cell.
+export function summarizeArchitecture(spec: ArchitectureSpec): string {
+  return spec.layers
+    .map(layer => {
+      switch (layer.kind) {
+        case 'conv2d': return `C${layer.filters}(${layer.kernelSize})`;
+        case 'maxPooling2d': return `MP${layer.poolSize}`;
+        case 'averagePooling2d': return `AP${layer.poolSize}`;
+        case 'dropout': return `Drop${layer.rate}`;
+        case 'batchNormalization': return 'BN';
+        case 'flatten': return null;
+        case 'dense': return `D${layer.units}`;
+      }
+    })
+    .filter(Boolean)
+    .join(' → ');
+}
+
+export interface LayerDescription {
+  name: string;
+  type: string;
+  desc: string;
+  details: string;
+}
+
+const ACTIVATION_DETAILS: Record<Activation, string> = {
+  relu: '之后经过 ReLU 激活：过滤掉负值，保留正值，只有足够强的信号才能通过。',
+  sigmoid: '之后经过 Sigmoid 激活，把输出压缩到 0-1 之间。',
+  tanh: '之后经过 Tanh 激活，把输出压缩到 -1 到 1 之间。',
+  linear: '',
+  softmax: '',
+};
+
+export function describeLayer(layer: LayerSpec, isLast = false): LayerDescription {
+  switch (layer.kind) {
+    case 'conv2d':
+      return {
+        name: layer.name,
+        type: 'Conv2D',
+        desc: '卷积层',
+        details: `使用 ${layer.filters} 个 ${layer.kernelSize}x${layer.kernelSize} 的小窗口（滤波器）扫描图片，` +
+          `每次移动 ${layer.strides} 格${layer.padding === 'same' ? '（边缘补零，尺寸不变）' : ''}，` +
+          `提取边缘、线条等特征。就像用不同的滤镜看图片。${ACTIVATION_DETAILS[layer.activation]}`,
+      };
+    case 'maxPooling2d':
+      return {
+        name: layer.name,
+        type: 'MaxPooling',
+        desc: '池化层',
+        details: `在每个 ${layer.poolSize}x${layer.poolSize} 的区域里只保留最大值（每次移动 ${layer.strides} 格），` +
+          '保留最明显的特征，同时缩小图片、减少计算量。',
+      };
+    case 'averagePooling2d':
+      return {
+        name: layer.name,
+        type: 'AvgPooling',
+        desc: '平均池化层',
+        details: `在每个 ${layer.poolSize}x${layer.poolSize} 的区域里取平均值（每次移动 ${layer.strides} 格），` +
+          '让特征更平滑，同时缩小图片、减少计算量。',
+      };
+    case 'dropout':
+      return {
+        name: layer.name,
+        type: 'Dropout',
+        desc: '随机丢弃层',
+        details: `训练时随机“关掉” ${Math.round(layer.rate * 100)}% 的神经元，逼迫网络不依赖个别特征，减少死记硬背（过拟合）。识别时不起作用。`,
+      };
+    case 'batchNormalization':
+      return {
+        name: layer.name,
+        type: 'BatchNorm',
+        desc: '批归一化层',
+        details: '把每个通道的数值调整到相近的范围（均值约为 0，方差约为 1），让训练更稳定、更快。',
+      };
+    case 'flatten':
+      return {
+        name: layer.name,
+        type: 'Flatten',
+        desc: '扁平化',
+        details: '将二维的图像矩阵“拉直”成一维的长向量，以便连接到全连接层。',
+      };
+    case 'dense':
+      return {
+        name: layer.name,
+        type: 'Dense',
+        desc: '全连接层',
+        details: isLast && layer.activation === 'softmax'
+          ? `综合所有特征，计算出属于 ${layer.units} 个类别中每一类的“得分”，再用 Softmax 转换成概率。`
+          : `${layer.units} 个神经元，每个都和上一层的所有输入相连，综合特征。${ACTIVATION_DETAILS[layer.activation]}`,
+      };
+  }
+}
+
+export function describeArchitecture(spec: ArchitectureSpec): LayerDescription[] {
+  const [h, w, c] = spec.inputShape;
+  return [
+    {
+      name: 'Input',
+      type: 'Input Layer',
+      desc: '输入层',
+      details: `接收 ${h}x${w}${c > 1 ? `x${c}` : ''} 的像素图像。每个像素点代表颜色的深浅（0-255）。`,
+    },
+    ...spec.layers.map((layer, i) => describeLayer(layer, i === spec.layers.length - 1)),
+  ];
+}
+
+export interface LayerShapeInfo {
+  name: string;
+  outputShape: number[] | null; // null once an earlier layer is invalid
+  params: number;
+  error: string | null;
+}
+
+export interface ArchitectureAnalysis {
+  layers: LayerShapeInfo[];
+  totalParams: number;
+  errors: string[];
+  isValid: boolean;
+}
+
+export function windowOutputSize(input: number, window: number, strides: number, padding: Padding) {
+  return padding === 'same'
+    ? Math.ceil(input / strides)
+    : Math.floor((input - window) / strides) + 1;
+}
+
+// Rows or columns added before and after for 'same' padding, split as TensorFlow does
+export function samePadding(input: number, window: number, strides: number): [number, number] {
+  const total = Math.max((Math.ceil(input / strides) - 1) * strides + window - input, 0);
+  return [Math.floor(total / 2), total - Math.floor(total / 2)];
+}
+
+function inferLayer(layer: LayerSpec, input: number[]): { outputShape: number[]; params: number } | string {
+  switch (layer.kind) {
+    case 'conv2d':
+    case 'maxPooling2d':
+    case 'averagePooling2d': {
+      if (input.length !== 3) return '扁平化之后不能再使用卷积或池化层';
+      const [h, w, c] = input;
+      const window = layer.kind === 'conv2d' ? layer.kernelSize : layer.poolSize;
+      if (layer.padding === 'valid' && (window > h || window > w)) {
+        return `${window}x${window} 的窗口放不进 ${h}x${w} 的特征图`;
+      }
+      const outH = windowOutputSize(h, window, layer.strides, layer.padding);
+      const outW = windowOutputSize(w, window, layer.strides, layer.padding);
+      if (layer.kind === 'conv2d') {
+        return {
+          outputShape: [outH, outW, layer.filters],
+          params: window * window * c * layer.filters + layer.filters,
+        };
+      }
+      return { outputShape: [outH, outW, c], params: 0 };
+    }
+    case 'dropout':
+      return { outputShape: input, params: 0 };
+    case 'batchNormalization':
+      // gamma, beta, moving mean and moving variance for every channel
+      return { outputShape: input, params: 4 * input[input.length - 1] };
+    case 'flatten':
+      if (input.length === 1) return '输入已经是一维向量，不需要再扁平化';
+      return { outputShape: [input.reduce((a, b) => a * b, 1)], params: 0 };
+    case 'dense':
+      if (input.length !== 1) return '全连接层之前需要先加入 Flatten 层';
+      return { outputShape: [layer.units], params: input[0] * layer.units + layer.units };
+  }
+}
+
+// Walks the layer stack and computes every layer's output shape and
+// parameter count, so an invalid spec is reported before tf ever sees it.
+export function analyzeArchitecture(spec: ArchitectureSpec, numClasses = 10): ArchitectureAnalysis {
+  const layers: LayerShapeInfo[] = [];
+  const errors: string[] = [];
+  let shape: number[] | null = [...spec.inputShape];
+  let totalParams = 0;
+
+  const parsed = ArchitectureSpecSchema.safeParse(spec);
+  if (!parsed.success) {
+    errors.push(...parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`));
+  }
+
+  for (const layer of spec.layers) {
+    if (!shape) {
+      layers.push({ name: layer.name, outputShape: null, params: 0, error: null });
+      continue;
+    }
+    const result = inferLayer(layer, shape);
+    if (typeof result === 'string') {
+      layers.push({ name: layer.name, outputShape: null, params: 0, error: result });
+      errors.push(`${layer.name}: ${result}`);
+      shape = null;
+    } else {
+      layers.push({ name: layer.name, outputShape: result.outputShape, params: result.params, error: null });
+      totalParams += result.params;
+      shape = result.outputShape;
+    }
+  }
+
+  if (shape && (shape.length !== 1 || shape[0] !== numClasses)) {
+    errors.push(`最后一层必须输出 ${numClasses} 个类别，当前输出形状为 [${shape.join(', ')}]`);
+  }
+  const last = spec.layers[spec.layers.length - 1];
+  if (last && (last.kind !== 'dense' || last.activation !== 'softmax')) {
+    errors.push('最后一层必须是使用 softmax 激活的全连接层');
+  }
+
+  return { layers, totalParams, errors, isValid: errors.length === 0 };
+}
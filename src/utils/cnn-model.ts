@@ -1,127 +1,322 @@
 import * as tf from '@tensorflow/tfjs';
-import { MnistData } from './mnist-data';
+import { DatasetInfo, DatasetSource } from './dataset-source';
+import { ArchitectureSpec, DEFAULT_ARCHITECTURE, LayerSpec, parseArchitecture } from './cnn-architecture';
+import { AugmentationConfig, NO_AUGMENTATION, augmentImages, isAugmentationEnabled } from './augmentation';
 
 export const IMAGE_WIDTH = 28;
 export const IMAGE_HEIGHT = 28;
 export const IMAGE_CHANNELS = 1;
 
-export function createModel() {
+function buildLayer(layer: LayerSpec, inputShape?: [number, number, number]) {
+  switch (layer.kind) {
+    case 'conv2d':
+      return tf.layers.conv2d({
+        inputShape,
+        kernelSize: layer.kernelSize,
+        filters: layer.filters,
+        strides: layer.strides,
+        padding: layer.padding,
+        activation: layer.activation,
+        kernelInitializer: 'varianceScaling',
+        name: layer.name
+      });
+    case 'maxPooling2d':
+      return tf.layers.maxPooling2d({
+        inputShape,
+        poolSize: [layer.poolSize, layer.poolSize],
+        strides: [layer.strides, layer.strides],
+        padding: layer.padding,
+        name: layer.name
+      });
+    case 'averagePooling2d':
+      return tf.layers.averagePooling2d({
+        inputShape,
+        poolSize: [layer.poolSize, layer.poolSize],
+        strides: [layer.strides, layer.strides],
+        padding: layer.padding,
+        name: layer.name
+      });
+    case 'dropout':
+      return tf.layers.dropout({ inputShape, rate: layer.rate, name: layer.name });
+    case 'batchNormalization':
+      return tf.layers.batchNormalization({ inputShape, name: layer.name });
+    case 'flatten':
+      return tf.layers.flatten({ inputShape, name: layer.name });
+    case 'dense':
+      return tf.layers.dense({
+        inputShape,
+        units: layer.units,
+        kernelInitializer: 'varianceScaling',
+        activation: layer.activation,
+        name: layer.name
+      });
+  }
+}
+
+export function createModel(architecture: ArchitectureSpec = DEFAULT_ARCHITECTURE) {
+  const spec = parseArchitecture(architecture);
   const model = tf.sequential();
 
-  // Layer 1: Conv2D
-  model.add(tf.layers.conv2d({
-    inputShape: [IMAGE_WIDTH, IMAGE_HEIGHT, IMAGE_CHANNELS],
-    kernelSize: 5,
-    filters: 8,
-    strides: 1,
-    activation: 'relu',
-    kernelInitializer: 'varianceScaling',
-    name: 'conv1'
-  }));
-
-  // Layer 2: MaxPooling
-  model.add(tf.layers.maxPooling2d({
-    poolSize: [2, 2],
-    strides: [2, 2],
-    name: 'pool1'
-  }));
-
-  // Layer 3: Conv2D (Optional, but good for better results, keeping it simple as requested)
-  model.add(tf.layers.conv2d({
-    kernelSize: 5,
-    filters: 16,
-    strides: 1,
-    activation: 'relu',
-    kernelInitializer: 'varianceScaling',
-    name: 'conv2'
-  }));
-  
-  model.add(tf.layers.maxPooling2d({
-    poolSize: [2, 2],
-    strides: [2, 2],
-    name: 'pool2'
-  }));
-
-  // Layer 4: Flatten
-  model.add(tf.layers.flatten({name: 'flatten'}));
-
-  // Layer 5: Dense
-  model.add(tf.layers.dense({
-    units: 10,
-    kernelInitializer: 'varianceScaling',
-    activation: 'softmax',
-    name: 'output'
-  }));
-
-  const optimizer = tf.train.adam();
+  spec.layers.forEach((layer, i) => {
+    // Only the first layer needs to know the input shape
+    const inputShape = i === 0 ? spec.inputShape : undefined;
+    model.add(buildLayer(layer, inputShape));
+  });
+
+  compileModel(model);
+  return model;
+}
+
+export type OptimizerName = 'sgd' | 'momentum' | 'adam' | 'rmsprop';
+
+export interface TrainingConfig {
+  epochs: number;
+  batchSize: number;
+  trainSize: number;      // Number of MNIST training images used per run
+  validationSize: number; // Number of test images used for val_loss / val_acc
+  optimizer: OptimizerName;
+  learningRate: number;
+  augmentation: AugmentationConfig; // Applied to the training images, redrawn every epoch
+}
+
+// Typical starting learning rate for each optimizer
+export const DEFAULT_LEARNING_RATES: Record<OptimizerName, number> = {
+  sgd: 0.1,
+  momentum: 0.05,
+  adam: 0.001,
+  rmsprop: 0.001,
+};
+
+export const DEFAULT_TRAINING_CONFIG: TrainingConfig = {
+  epochs: 5, // Keep it short for demo
+  batchSize: 64,
+  trainSize: 2000, // Increased from 500 for better accuracy
+  validationSize: 200,
+  optimizer: 'adam',
+  learningRate: DEFAULT_LEARNING_RATES.adam,
+  augmentation: NO_AUGMENTATION,
+};
+
+export function createOptimizer(name: OptimizerName, learningRate: number): tf.Optimizer {
+  switch (name) {
+    case 'sgd':
+      return tf.train.sgd(learningRate);
+    case 'momentum':
+      return tf.train.momentum(learningRate, 0.9);
+    case 'adam':
+      return tf.train.adam(learningRate);
+    case 'rmsprop':
+      return tf.train.rmsprop(learningRate);
+  }
+}
+
+export function getBatchesPerEpoch(config: TrainingConfig) {
+  return Math.ceil(config.trainSize / config.batchSize);
+}
+
+// Remembers which optimizer settings each model was compiled with, so that
+// "train more" with unchanged settings keeps the optimizer's internal state.
+const compiledOptimizers = new WeakMap<tf.LayersModel, string>();
+
+// Also used for models restored from storage, which come back uncompiled.
+export function compileModel(
+  model: tf.LayersModel,
+  config: Pick<TrainingConfig, 'optimizer' | 'learningRate'> = DEFAULT_TRAINING_CONFIG
+) {
   model.compile({
-    optimizer: optimizer,
+    optimizer: createOptimizer(config.optimizer, config.learningRate),
     loss: 'categoricalCrossentropy',
     metrics: ['accuracy'],
   });
+  compiledOptimizers.set(model, `${config.optimizer}:${config.learningRate}`);
+}
 
-  return model;
+export interface TrainingLogEntry {
+  epoch: number;
+  loss: number;
+  acc: number;
+  // On the validation images; missing for partial epochs, which tf reports
+  // without validation
+  valLoss?: number;
+  valAcc?: number;
+  partial?: boolean; // Run was stopped before this epoch finished
+}
+
+// One training batch. `epoch` is fractional (2.5 = halfway through the
+// third epoch), so batch and epoch curves share the same x-axis.
+export interface BatchLogEntry {
+  epoch: number;
+  loss: number;
+  acc: number;
+}
+
+// Epochs where the validation loss went back up from its best value while
+// the training loss kept falling: the model is starting to memorise the
+// training images rather than learn what the classes look like.
+export function findOverfittingEpochs(logs: TrainingLogEntry[], tolerance = 0.02): Set<number> {
+  const epochs = new Set<number>();
+  let best: { loss: number; valLoss: number } | null = null;
+  for (const { epoch, loss, valLoss } of logs) {
+    if (valLoss === undefined) continue;
+    if (!best || valLoss < best.valLoss) {
+      best = { loss, valLoss };
+    } else if (valLoss > best.valLoss * (1 + tolerance) && loss < best.loss) {
+      epochs.add(epoch);
+    }
+  }
+  return epochs;
+}
+
+// Lets the UI pause, resume or stop a running `trainModel` call. All three
+// take effect at the next batch boundary.
+export class TrainingController {
+  private paused = false;
+  private stopped = false;
+  private resumeWaiters: (() => void)[] = [];
+
+  get isPaused() {
+    return this.paused;
+  }
+
+  get isStopped() {
+    return this.stopped;
+  }
+
+  pause() {
+    if (!this.stopped) this.paused = true;
+  }
+
+  resume() {
+    this.paused = false;
+    this.resumeWaiters.forEach(resolve => resolve());
+    this.resumeWaiters = [];
+  }
+
+  stop() {
+    this.stopped = true;
+    this.resume(); // Wake a paused run so it can exit
+  }
+
+  waitWhilePaused(): Promise<void> {
+    if (!this.paused) return Promise.resolve();
+    return new Promise(resolve => this.resumeWaiters.push(resolve));
+  }
 }
 
 export async function trainModel(
   model: tf.LayersModel, 
-  data: MnistData, 
-  onEpochEnd: (epoch: number, logs: tf.Logs) => void,
-  onBatchEnd?: (batch: number, logs: tf.Logs) => void
+  data: DatasetSource, 
+  config: TrainingConfig,
+  onEpochEnd: (epoch: number, logs: tf.Logs, partial: boolean) => void,
+  onBatchEnd?: (batch: number, logs: tf.Logs) => void,
+  controller?: TrainingController
 ) {
-  const BATCH_SIZE = 64; 
-  const TRAIN_DATA_SIZE = 2000; // Increased from 500 for better accuracy
-  const TEST_DATA_SIZE = 200;
+  const { batchSize, trainSize, validationSize } = config;
+  const [h, w, c] = data.info.imageShape;
+  const batchesPerEpoch = getBatchesPerEpoch(config);
+
+  if (compiledOptimizers.get(model) !== `${config.optimizer}:${config.learningRate}`) {
+    compileModel(model, config);
+  }
 
   const [trainXs, trainYs] = tf.tidy(() => {
-    const d = data.nextTrainBatch(TRAIN_DATA_SIZE);
+    const d = data.nextTrainBatch(trainSize);
     return [
-      d.xs.reshape([TRAIN_DATA_SIZE, 28, 28, 1]),
+      d.xs.reshape([trainSize, h, w, c]),
       d.labels
     ];
   });
 
   const [testXs, testYs] = tf.tidy(() => {
-    const d = data.nextTestBatch(TEST_DATA_SIZE);
+    const d = data.nextTestBatch(validationSize);
     return [
-      d.xs.reshape([TEST_DATA_SIZE, 28, 28, 1]),
+      d.xs.reshape([validationSize, h, w, c]),
       d.labels
     ];
   });
 
-  return model.fit(trainXs, trainYs, {
-    batchSize: BATCH_SIZE,
-    validationData: [testXs, testYs],
-    epochs: 5, // Keep it short for demo
-    shuffle: true,
-    callbacks: {
-      onEpochEnd: async (epoch, logs) => {
-        if (onEpochEnd && logs) onEpochEnd(epoch, logs);
-      },
-      onBatchEnd: async (batch, logs) => {
-        if (onBatchEnd && logs) onBatchEnd(batch, logs);
-        await tf.nextFrame(); // Prevent UI blocking
+  let batchesThisEpoch = 0;
+
+  const fit = (xs: tf.Tensor, initialEpoch: number, epochs: number) =>
+    model.fit(xs, trainYs, {
+      batchSize,
+      validationData: [testXs, testYs],
+      initialEpoch,
+      epochs,
+      shuffle: true,
+      callbacks: {
+        onEpochBegin: async () => {
+          batchesThisEpoch = 0;
+        },
+        onEpochEnd: async (epoch, logs) => {
+          // After a stop, tf still reports the epoch, averaged over the
+          // batches that actually ran and without validation metrics.
+          if (onEpochEnd && logs) onEpochEnd(epoch, logs, batchesThisEpoch < batchesPerEpoch);
+        },
+        onBatchEnd: async (batch, logs) => {
+          batchesThisEpoch++;
+          if (onBatchEnd && logs) onBatchEnd(batch, logs);
+          // Give queued pause / stop messages a chance to run
+          await new Promise(resolve => setTimeout(resolve, 0));
+          if (controller) {
+            await controller.waitWhilePaused();
+            if (controller.isStopped) model.stopTraining = true;
+          }
+        }
       }
+    });
+
+  try {
+    if (!isAugmentationEnabled(config.augmentation)) {
+      return await fit(trainXs, 0, config.epochs);
     }
-  });
+    // One fit call per epoch, each on a fresh random augmentation of the
+    // same images, so the model never sees exactly the same picture twice.
+    const original = trainXs.dataSync() as Float32Array;
+    let history: tf.History | undefined;
+    for (let epoch = 0; epoch < config.epochs && !controller?.isStopped; epoch++) {
+      const augmented = tf.tensor4d(
+        augmentImages(original, trainSize, [h, w, c], config.augmentation),
+        [trainSize, h, w, c]
+      );
+      try {
+        history = await fit(augmented, epoch, epoch + 1);
+      } finally {
+        augmented.dispose();
+      }
+    }
+    return history;
+  } finally {
+    tf.dispose([trainXs, trainYs, testXs, testYs]);
+  }
 }
 
-export async function predict(model: tf.LayersModel, imageData: ImageData) {
+// [height, width, channels] the model expects, read from its input layer
+export function getModelInputShape(model: tf.LayersModel): [number, number, number] {
+  const [, h, w, c] = model.inputs[0].shape;
+  return [h ?? IMAGE_HEIGHT, w ?? IMAGE_WIDTH, c ?? IMAGE_CHANNELS];
+}
+
+// ImageData -> normalised [1, h, w, channels] tensor matching the model input
+export function imageDataToTensor(model: tf.LayersModel, imageData: ImageData) {
   return tf.tidy(() => {
-    // Convert ImageData to Tensor
-    let tensor = tf.browser.fromPixels(imageData, 1); // 1 channel (grayscale)
-    
-    // Resize to 28x28 if needed (though input should already be 28x28)
-    if (tensor.shape[0] !== 28 || tensor.shape[1] !== 28) {
-        tensor = tf.image.resizeBilinear(tensor, [28, 28]);
+    const [h, w, c] = getModelInputShape(model);
+    // fromPixels only supports 1, 3 or 4 channels; grayscale reads red
+    let tensor: tf.Tensor3D = tf.browser.fromPixels(imageData, c as 1 | 3 | 4);
+
+    // Resize if needed (though input should already match)
+    if (tensor.shape[0] !== h || tensor.shape[1] !== w) {
+        tensor = tf.image.resizeBilinear(tensor, [h, w]);
     }
 
     // Normalize: 0-255 -> 0-1
-    const floatTensor = tensor.toFloat().div(tf.scalar(255));
-
-    // Reshape to [1, 28, 28, 1]
-    const input = floatTensor.expandDims(0);
+    return tensor.toFloat().div(tf.scalar(255)).expandDims(0) as tf.Tensor4D;
+  });
+}
 
+export async function predict(model: tf.LayersModel, imageData: ImageData) {
+  return tf.tidy(() => {
+    const input = imageDataToTensor(model, imageData);
     const prediction = model.predict(input) as tf.Tensor;
     return prediction.dataSync();
   });
@@ -132,70 +327,92 @@ export function getActivation(model: tf.LayersModel, layerName: string, imageDat
         const layer = model.getLayer(layerName);
         const tempModel = tf.model({inputs: model.inputs, outputs: layer.output as tf.SymbolicTensor});
         
-        let tensor = tf.browser.fromPixels(imageData, 1);
-        if (tensor.shape[0] !== 28 || tensor.shape[1] !== 28) {
-            tensor = tf.image.resizeBilinear(tensor, [28, 28]);
-        }
-        const floatTensor = tensor.toFloat().div(tf.scalar(255)).expandDims(0);
+        const input = imageDataToTensor(model, imageData);
         
-        const activation = tempModel.predict(floatTensor) as tf.Tensor;
+        const activation = tempModel.predict(input) as tf.Tensor;
         return activation; // Returns tensor of shape [1, h, w, filters]
     });
 }
 
-export function getConv1Weights(model: tf.LayersModel) {
-    const layer = model.getLayer('conv1');
+// All kernels of a Conv2D layer, copied out of the model. `kernel` keeps
+// TensorFlow's [kh, kw, inChannels, filters] layout; use `kernelValue` to
+// read it.
+export interface ConvKernels {
+    shape: [number, number, number, number];
+    kernel: Float32Array;
+    bias: Float32Array;
+}
+
+// The conv kernels of every Conv2D layer after a given epoch (0 = the
+// random initial weights), recorded so training can be replayed
+export interface KernelSnapshot {
+    epoch: number;
+    layers: Record<string, ConvKernels>;
+}
+
+// Defaults to the first Conv2D layer, so it keeps working after the
+// architecture has been edited.
+export function getConvKernels(model: tf.LayersModel, layerName?: string): ConvKernels | null {
+    const layer = layerName
+        ? model.layers.find(l => l.name === layerName)
+        : model.layers.find(l => l.getClassName() === 'Conv2D');
+    if (!layer || layer.getClassName() !== 'Conv2D') return null;
     const weights = layer.getWeights();
     if (!weights || weights.length < 2) return null;
-    
-    const kernelTensor = weights[0]; // [5, 5, 1, 8]
-    const biasTensor = weights[1];   // [8]
-    
-    const kernelData = kernelTensor.dataSync();
-    const biasData = biasTensor.dataSync();
-    
-    // Extract first filter (index 0)
-    const kernel: number[][] = [];
-    for (let i = 0; i < 5; i++) {
-        const row: number[] = [];
-        for (let j = 0; j < 5; j++) {
-            const idx = (i * 5 + j) * 8;
-            row.push(kernelData[idx]);
-        }
-        kernel.push(row);
-    }
-    
+
+    const [kh, kw, inChannels, filters] = weights[0].shape;
     return {
-        kernel,
-        bias: biasData[0]
+        shape: [kh, kw, inChannels, filters],
+        kernel: Float32Array.from(weights[0].dataSync()),
+        bias: Float32Array.from(weights[1].dataSync()),
     };
 }
 
-export function imageDataToGrid(imageData: ImageData, size = 10): number[][] {
-    // Crop center 'size x size'
-    const { width, height, data } = imageData;
-    const startX = Math.floor((width - size) / 2);
-    const startY = Math.floor((height - size) / 2);
-    
-    const grid: number[][] = [];
-    
-    for (let i = 0; i < size; i++) {
-        const row: number[] = [];
-        for (let j = 0; j < size; j++) {
-            const x = startX + j;
-            const y = startY + i;
-            const idx = (y * width + x) * 4;
-            // Use Red channel, normalize to 0-1
-            row.push(data[idx] / 255);
-        }
-        grid.push(row);
+export function kernelValue({ shape, kernel }: ConvKernels, filter: number, channel: number, row: number, col: number) {
+    const [, kw, inChannels, filters] = shape;
+    return kernel[((row * kw + col) * inChannels + channel) * filters + filter];
+}
+
+export function getKernelSnapshot(model: tf.LayersModel, epoch: number): KernelSnapshot {
+    const layers: Record<string, ConvKernels> = {};
+    for (const layer of model.layers) {
+        const kernels = getConvKernels(model, layer.name);
+        if (kernels) layers[layer.name] = kernels;
     }
-    
-    return grid;
+    return { epoch, layers };
+}
+
+// A spatial layer's output (or input) for one image, copied out of
+// TensorFlow: `data` is laid out as [h, w, channels]
+export interface FeatureMaps {
+    data: Float32Array;
+    shape: [number, number, number];
+}
+
+function toFeatureMaps(tensor: tf.Tensor): FeatureMaps {
+    const [, h, w, c] = tensor.shape;
+    const data = tensor.dataSync() as Float32Array;
+    tensor.dispose();
+    return { data, shape: [h, w, c] };
+}
+
+// All channels of a spatial layer's output for this image
+export function getFeatureMaps(model: tf.LayersModel, layerName: string, imageData: ImageData): FeatureMaps {
+    return toFeatureMaps(getActivation(model, layerName, imageData));
+}
+
+// What a layer receives for this image: the normalised image for the first
+// layer, otherwise the previous layer's output
+export function getLayerInput(model: tf.LayersModel, layerName: string, imageData: ImageData): FeatureMaps {
+    const index = model.layers.findIndex(l => l.name === layerName);
+    if (index < 0) throw new Error(`Layer "${layerName}" not found`);
+    return toFeatureMaps(index === 0
+        ? imageDataToTensor(model, imageData)
+        : getActivation(model, model.layers[index - 1].name, imageData));
 }
 
 // Helper to center the digit in the image (like MNIST)
-export function preprocessImage(imageData: ImageData): ImageData {
+export function preprocessImage(imageData: ImageData, size = IMAGE_WIDTH): ImageData {
     const { width, height, data } = imageData;
     
     // 1. Find bounding box
@@ -223,20 +440,22 @@ export function preprocessImage(imageData: ImageData): ImageData {
     const contentWidth = maxX - minX + 1;
     const contentHeight = maxY - minY + 1;
     
-    // 3. Scale to fit in 20x20 box (preserving aspect ratio)
-    const scale = Math.min(20 / contentWidth, 20 / contentHeight);
+    // 3. Scale to fit in 20x20 box (preserving aspect ratio), or the same
+    //    proportion of a different target size
+    const box = Math.round(size * 20 / 28);
+    const scale = Math.min(box / contentWidth, box / contentHeight);
     const scaledWidth = Math.floor(contentWidth * scale);
     const scaledHeight = Math.floor(contentHeight * scale);
     
     // 4. Create new centered image
     const canvas = document.createElement('canvas');
-    canvas.width = 28;
-    canvas.height = 28;
+    canvas.width = size;
+    canvas.height = size;
     const ctx = canvas.getContext('2d');
     if (!ctx) return imageData;
     
     ctx.fillStyle = 'black';
-    ctx.fillRect(0, 0, 28, 28);
+    ctx.fillRect(0, 0, size, size);
     
     // Draw the cropped content scaled
     // We need a temp canvas for the crop
@@ -248,8 +467,8 @@ export function preprocessImage(imageData: ImageData): ImageData {
     tempCtx.putImageData(imageData, 0, 0);
     
     // Draw scaled and centered
-    const dx = Math.floor((28 - scaledWidth) / 2);
-    const dy = Math.floor((28 - scaledHeight) / 2);
+    const dx = Math.floor((size - scaledWidth) / 2);
+    const dy = Math.floor((size - scaledHeight) / 2);
     
     ctx.drawImage(
         tempCanvas, 
@@ -257,5 +476,44 @@ export function preprocessImage(imageData: ImageData): ImageData {
         dx, dy, scaledWidth, scaledHeight
     );
     
-    return ctx.getImageData(0, 0, 28, 28);
+    return ctx.getImageData(0, 0, size, size);
+}
+
+// The image the model actually sees: drawings of digits and letters are
+// centred like MNIST, photos are used as they are.
+export function prepareInputImage(imageData: ImageData, info: DatasetInfo): ImageData {
+    return info.inputStyle === 'strokes' ? preprocessImage(imageData, info.imageShape[1]) : imageData;
+}
+
+// ImageData (RGBA) -> 0-255 pixels in [h, w, channels] order, the layout
+// used by the datasets. Grayscale keeps the red channel, like fromPixels.
+export function imageDataToPixels(imageData: ImageData, channels: number): Uint8Array {
+    const { width, height, data } = imageData;
+    const pixels = new Uint8Array(width * height * channels);
+    for (let i = 0; i < width * height; i++) {
+        for (let c = 0; c < channels; c++) {
+            pixels[i * channels + c] = data[i * 4 + c];
+        }
+    }
+    return pixels;
+}
+
+export function pixelsToImageData(pixels: Uint8Array, width: number, height: number, channels: number): ImageData {
+    const imageData = new ImageData(width, height);
+    for (let i = 0; i < width * height; i++) {
+        for (let c = 0; c < 3; c++) {
+            imageData.data[i * 4 + c] = pixels[i * channels + (channels === 1 ? 0 : c)];
+        }
+        imageData.data[i * 4 + 3] = 255;
+    }
+    return imageData;
+}
+
+// For <img> thumbnails of dataset images and samples
+export function pixelsToDataUrl(pixels: Uint8Array, [height, width, channels]: [number, number, number]): string {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')?.putImageData(pixelsToImageData(pixels, width, height, channels), 0, 0);
+    return canvas.toDataURL();
 }
@@ -0,0 +1,131 @@
+import * as tf from '@tensorflow/tfjs';
+import { DatasetBatch, DatasetInfo, DatasetSource } from './dataset-source';
+import { InMemoryDataset } from './in-memory-dataset';
+
+// A sample drawn and labelled by a student. Pixels are 0-255 in
+// [h, w, channels] order, already preprocessed like a prediction input.
+export interface CustomSample {
+  id: number;
+  label: number;
+  pixels: Uint8Array;
+  createdAt: number;
+}
+
+// Which data a training run uses: the selected dataset, the student's own
+// samples, or a mix where `customFraction` of every batch is custom samples.
+export type DataMixMode = 'dataset' | 'custom' | 'mixed';
+
+export interface DataMix {
+  mode: DataMixMode;
+  customFraction: number; // 0-1, only used in 'mixed' mode
+}
+
+export const DEFAULT_DATA_MIX: DataMix = { mode: 'dataset', customFraction: 0.3 };
+
+// Every fifth sample is held out for validation once there are enough of
+// them; with only a handful, validation reuses the training samples.
+const HOLDOUT_EVERY = 5;
+const MIN_SAMPLES_FOR_HOLDOUT = 10;
+
+export class CustomDataset extends InMemoryDataset {
+  constructor(info: DatasetInfo, samples: CustomSample[]) {
+    super(info, 'custom', `自建数据集（${samples.length} 张）`);
+    if (samples.length === 0) throw new Error('The custom dataset is empty');
+
+    const holdout = samples.length >= MIN_SAMPLES_FOR_HOLDOUT;
+    const train = holdout ? samples.filter((_, i) => i % HOLDOUT_EVERY !== 0) : samples;
+    const test = holdout ? samples.filter((_, i) => i % HOLDOUT_EVERY === 0) : samples;
+    const [trainImages, trainLabels] = this.pack(train);
+    const [testImages, testLabels] = this.pack(test);
+    this.setSplits(trainImages, trainLabels, testImages, testLabels);
+  }
+
+  private pack(samples: CustomSample[]): [Uint8Array, Uint8Array] {
+    const [h, w, c] = this.info.imageShape;
+    const imageSize = h * w * c;
+    const images = new Uint8Array(samples.length * imageSize);
+    const labels = new Uint8Array(samples.length * this.numClasses);
+    samples.forEach((sample, i) => {
+      if (sample.pixels.length !== imageSize) {
+        throw new Error(`Sample ${sample.id} does not match the ${h}x${w}x${c} image shape`);
+      }
+      images.set(sample.pixels, i * imageSize);
+      labels[i * this.numClasses + sample.label] = 1;
+    });
+    return [images, labels];
+  }
+}
+
+// Draws every batch partly from the base dataset (e.g. `MnistData`) and
+// partly from the custom samples, so fine-tuning on a few dozen drawings
+// does not make the model forget the original classes.
+export class MixedDataset implements DatasetSource {
+  readonly id = 'custom';
+  readonly label: string;
+
+  constructor(
+    private readonly base: DatasetSource,
+    private readonly custom: DatasetSource,
+    private readonly customFraction: number
+  ) {
+    this.label = `${base.label} + ${custom.label}（${Math.round(customFraction * 100)}%）`;
+  }
+
+  get info() {
+    return this.base.info;
+  }
+
+  get numTrainElements() {
+    return this.base.numTrainElements + this.custom.numTrainElements;
+  }
+
+  get numTestElements() {
+    return this.base.numTestElements + this.custom.numTestElements;
+  }
+
+  async load() {
+    await Promise.all([this.base.load(), this.custom.load()]);
+  }
+
+  nextTrainBatch(batchSize: number) {
+    return this.mix(batchSize, n => this.base.nextTrainBatch(n), n => this.custom.nextTrainBatch(n));
+  }
+
+  nextTestBatch(batchSize: number) {
+    return this.mix(batchSize, n => this.base.nextTestBatch(n), n => this.custom.nextTestBatch(n));
+  }
+
+  getSplits(): never {
+    throw new Error('A mixed dataset has no single set of splits; send its parts instead');
+  }
+
+  private mix(
+    batchSize: number,
+    fromBase: (n: number) => DatasetBatch,
+    fromCustom: (n: number) => DatasetBatch
+  ): DatasetBatch {
+    const numCustom = Math.min(batchSize, Math.max(1, Math.round(batchSize * this.customFraction)));
+    const numBase = batchSize - numCustom;
+    const custom = fromCustom(numCustom);
+    if (numBase === 0) return custom;
+    const base = fromBase(numBase);
+    const batch = {
+      xs: tf.concat([base.xs, custom.xs]),
+      labels: tf.concat([base.labels, custom.labels]),
+    };
+    tf.dispose([base.xs, base.labels, custom.xs, custom.labels]);
+    return batch;
+  }
+}
+
+// Picks the source for a training run.
+export function selectTrainingData(
+  base: DatasetSource,
+  custom: DatasetSource | null,
+  mix: DataMix
+): DatasetSource {
+  if (mix.mode === 'dataset') return base;
+  if (!custom) throw new Error('No custom samples to train on');
+  if (mix.mode === 'custom') return custom;
+  return new MixedDataset(base, custom, mix.customFraction);
+}
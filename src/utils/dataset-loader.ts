@@ -0,0 +1,55 @@
+import { DatasetId, DatasetSource } from './dataset-source';
+import { LocalMnistData, MnistData } from './mnist-data';
+import { EmnistLettersData, FashionMnistData } from './idx-data';
+import { Cifar10Data } from './cifar10-data';
+
+const REMOTE_TIMEOUT_MS = 20000;
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out after ${ms / 1000}s`)), ms);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      err => { clearTimeout(timer); reject(err); }
+    );
+  });
+}
+
+export interface LoadedDataset {
+  source: DatasetSource;
+  fallbackReason?: string; // Why the remote dataset could not be used
+}
+
+// Tries the full remote MNIST first and falls back to the bundled subset
+// when there is no network (or it is too slow).
+export async function loadDatasetWithFallback(): Promise<LoadedDataset> {
+  const remote = new MnistData();
+  try {
+    await withTimeout(remote.load(), REMOTE_TIMEOUT_MS);
+    return { source: remote };
+  } catch (err) {
+    console.warn("Remote MNIST unavailable, using bundled subset", err);
+    const local = new LocalMnistData();
+    await local.load();
+    return { source: local, fallbackReason: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+export async function loadDataset(id: DatasetId): Promise<LoadedDataset> {
+  let source: DatasetSource;
+  switch (id) {
+    case 'mnist':
+      return loadDatasetWithFallback();
+    case 'fashion-mnist':
+      source = new FashionMnistData();
+      break;
+    case 'emnist-letters':
+      source = new EmnistLettersData();
+      break;
+    case 'cifar10':
+      source = new Cifar10Data();
+      break;
+  }
+  await source.load();
+  return { source };
+}
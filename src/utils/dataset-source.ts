@@ -0,0 +1,89 @@
+import * as tf from '@tensorflow/tfjs';
+
+export const DATASET_IDS = ['mnist', 'fashion-mnist', 'emnist-letters', 'cifar10'] as const;
+
+export type DatasetId = typeof DATASET_IDS[number];
+
+// 'static' means files served with the app from public/datasets/, 'custom'
+// samples drawn by the students themselves.
+export type DatasetSourceId = 'remote' | 'bundled' | 'static' | 'custom';
+
+export interface DatasetInfo {
+  id: DatasetId;
+  name: string;
+  imageShape: [number, number, number]; // [height, width, channels]
+  classNames: string[];
+  // 'strokes': white drawing on black, centred like MNIST before predicting.
+  // 'photo': the whole picture is simply resized to imageShape.
+  inputStyle: 'strokes' | 'photo';
+  inputHint: string;
+}
+
+export const DATASETS: Record<DatasetId, DatasetInfo> = {
+  'mnist': {
+    id: 'mnist',
+    name: 'MNIST 手写数字',
+    imageShape: [28, 28, 1],
+    classNames: ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'],
+    inputStyle: 'strokes',
+    inputHint: '请在此处手写数字 0-9',
+  },
+  'fashion-mnist': {
+    id: 'fashion-mnist',
+    name: 'Fashion-MNIST 服饰',
+    imageShape: [28, 28, 1],
+    classNames: ['T恤', '裤子', '套头衫', '连衣裙', '外套', '凉鞋', '衬衫', '运动鞋', '包', '短靴'],
+    inputStyle: 'photo',
+    inputHint: '画一件衣服或鞋子（白色画笔），或上传黑底图片',
+  },
+  'emnist-letters': {
+    id: 'emnist-letters',
+    name: 'EMNIST 手写字母',
+    imageShape: [28, 28, 1],
+    classNames: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split(''),
+    inputStyle: 'strokes',
+    inputHint: '请在此处手写字母 A-Z',
+  },
+  'cifar10': {
+    id: 'cifar10',
+    name: 'CIFAR-10 彩色照片',
+    imageShape: [32, 32, 3],
+    classNames: ['飞机', '汽车', '鸟', '猫', '鹿', '狗', '青蛙', '马', '船', '卡车'],
+    inputStyle: 'photo',
+    inputHint: '上传一张照片（飞机、汽车、动物……）',
+  },
+};
+
+export function getImageSize(info: DatasetInfo) {
+  const [h, w, c] = info.imageShape;
+  return h * w * c;
+}
+
+// Images are flattened in [h, w, channels] order. Uint8 images hold raw
+// 0-255 pixels and are normalised when a batch is built.
+export interface DatasetSplits {
+  info: DatasetInfo;
+  trainImages: Float32Array | Uint8Array;
+  trainLabels: Uint8Array; // one-hot
+  testImages: Float32Array | Uint8Array;
+  testLabels: Uint8Array;  // one-hot
+}
+
+export interface DatasetBatch {
+  xs: tf.Tensor2D;     // [batchSize, imageSize], values 0-1
+  labels: tf.Tensor2D; // [batchSize, numClasses], one-hot
+}
+
+// Anything the demo can train and validate on. `MnistData` downloads the
+// full dataset; `LocalMnistData` reads the subset bundled with the app.
+export interface DatasetSource {
+  readonly info: DatasetInfo;
+  readonly id: DatasetSourceId;
+  readonly label: string; // Shown in the UI so users know which data is in use
+  readonly numTrainElements: number;
+  readonly numTestElements: number;
+  load(): Promise<void>;
+  nextTrainBatch(batchSize: number): DatasetBatch;
+  nextTestBatch(batchSize: number): DatasetBatch;
+  getSplits(): DatasetSplits;
+}
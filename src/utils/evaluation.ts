@@ -0,0 +1,106 @@
+import * as tf from '@tensorflow/tfjs';
+import { DatasetSource, DatasetSplits, getImageSize } from './dataset-source';
+
+// Predicts in chunks of this many test images, so even the full 10000-image
+// MNIST test split never needs more than one chunk of tensors at a time.
+const EVAL_BATCH_SIZE = 500;
+
+export interface ClassMetrics {
+  precision: number; // Of the images predicted as this class, how many were right
+  recall: number;    // Of the images of this class, how many were found
+  f1: number;
+  support: number;   // Number of test images of this class
+}
+
+export interface EvaluationResult {
+  numExamples: number;
+  accuracy: number;
+  // confusion[actual][predicted] = number of test images
+  confusion: number[][];
+  perClass: ClassMetrics[];
+  // Per test image, in test split order
+  labels: Uint8Array;
+  predictions: Uint8Array;
+  confidences: Float32Array; // Probability of the predicted class
+}
+
+function argMaxOneHot(labels: Uint8Array, index: number, numClasses: number) {
+  const row = labels.subarray(index * numClasses, (index + 1) * numClasses);
+  return row.indexOf(1);
+}
+
+export function computeClassMetrics(confusion: number[][]): ClassMetrics[] {
+  return confusion.map((row, cls) => {
+    const truePositives = row[cls];
+    const support = row.reduce((sum, n) => sum + n, 0);
+    const predicted = confusion.reduce((sum, r) => sum + r[cls], 0);
+    const precision = predicted > 0 ? truePositives / predicted : 0;
+    const recall = support > 0 ? truePositives / support : 0;
+    const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+    return { precision, recall, f1, support };
+  });
+}
+
+// Runs the model on every image of the test split.
+export async function evaluateModel(
+  model: tf.LayersModel,
+  data: DatasetSource,
+  onProgress?: (done: number, total: number) => void
+): Promise<EvaluationResult> {
+  const { info, testImages, testLabels } = data.getSplits();
+  const [h, w, c] = info.imageShape;
+  const imageSize = getImageSize(info);
+  const numClasses = info.classNames.length;
+  const total = testLabels.length / numClasses;
+  const scale = testImages instanceof Uint8Array ? 1 / 255 : 1;
+
+  const labels = new Uint8Array(total);
+  const predictions = new Uint8Array(total);
+  const confidences = new Float32Array(total);
+  const confusion = Array.from({ length: numClasses }, () => new Array<number>(numClasses).fill(0));
+  let correct = 0;
+
+  for (let start = 0; start < total; start += EVAL_BATCH_SIZE) {
+    const count = Math.min(EVAL_BATCH_SIZE, total - start);
+    const [predicted, confidence] = tf.tidy(() => {
+      const pixels = testImages.subarray(start * imageSize, (start + count) * imageSize);
+      const xs = tf.tensor4d(Float32Array.from(pixels, v => v * scale), [count, h, w, c]);
+      const probs = model.predict(xs) as tf.Tensor2D;
+      return [probs.argMax(1), probs.max(1)];
+    });
+    const predictedData = await predicted.data();
+    const confidenceData = await confidence.data();
+    tf.dispose([predicted, confidence]);
+
+    for (let i = 0; i < count; i++) {
+      const index = start + i;
+      const actual = argMaxOneHot(testLabels, index, numClasses);
+      const guess = predictedData[i];
+      labels[index] = actual;
+      predictions[index] = guess;
+      confidences[index] = confidenceData[i];
+      confusion[actual][guess]++;
+      if (actual === guess) correct++;
+    }
+
+    onProgress?.(start + count, total);
+    await tf.nextFrame(); // Keep the page responsive between chunks
+  }
+
+  return {
+    numExamples: total,
+    accuracy: total > 0 ? correct / total : 0,
+    confusion,
+    perClass: computeClassMetrics(confusion),
+    labels,
+    predictions,
+    confidences,
+  };
+}
+
+// 0-255 pixels of one test image, in [h, w, channels] order
+export function getTestImagePixels(splits: DatasetSplits, index: number): Uint8Array {
+  const imageSize = getImageSize(splits.info);
+  const pixels = splits.testImages.subarray(index * imageSize, (index + 1) * imageSize);
+  return pixels instanceof Uint8Array ? pixels : Uint8Array.from(pixels, v => Math.round(v * 255));
+}
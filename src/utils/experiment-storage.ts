@@ -0,0 +1,103 @@
+import { z } from 'zod';
+import { ArchitectureSpec, ArchitectureSpecSchema } from './cnn-architecture';
+import { TrainingConfig, TrainingLogEntry } from './cnn-model';
+import { DataMix } from './custom-dataset';
+import { DATASET_IDS, DatasetId } from './dataset-source';
+import { TrainingLogEntrySchema } from './model-storage';
+
+// Every training run is recorded as an experiment: its settings and curves,
+// without the weights. "继续训练" starts a new record that remembers how many
+// epochs the model already had, so each record has exactly one set of settings. A record is a few kilobytes of JSON, so the
+// whole list lives under a single localStorage key.
+const STORAGE_KEY = 'cnn-visualizer-experiments';
+
+export interface Experiment {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;        // End of the most recent epoch
+  datasetId: DatasetId;
+  architecture: ArchitectureSpec;
+  config: TrainingConfig;
+  dataMix: DataMix;
+  startEpoch: number;       // Epochs the model had been trained before this run
+  logs: TrainingLogEntry[]; // This run's epochs only, numbered from startEpoch
+  testAccuracy: number | null;
+  testEpochs: number;       // Epochs trained in total when testAccuracy was measured
+}
+
+const TrainingConfigSchema = z.object({
+  epochs: z.number(),
+  batchSize: z.number(),
+  trainSize: z.number(),
+  validationSize: z.number(),
+  optimizer: z.enum(['sgd', 'momentum', 'adam', 'rmsprop']),
+  learningRate: z.number(),
+  augmentation: z.object({
+    rotation: z.number(),
+    translation: z.number(),
+    scale: z.number(),
+    elastic: z.number(),
+    thickening: z.number(),
+    noise: z.number(),
+  }),
+});
+
+const ExperimentSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+  datasetId: z.enum(DATASET_IDS),
+  architecture: ArchitectureSpecSchema,
+  config: TrainingConfigSchema,
+  dataMix: z.object({
+    mode: z.enum(['dataset', 'custom', 'mixed']),
+    customFraction: z.number(),
+  }),
+  startEpoch: z.number().default(0),
+  logs: z.array(TrainingLogEntrySchema),
+  testAccuracy: z.number().nullable(),
+  testEpochs: z.number(),
+});
+
+export function createExperimentId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Oldest first. Records that no longer match the schema are dropped rather
+// than failing the whole list.
+export function listExperiments(): Experiment[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(json)) return [];
+  return json.flatMap(item => {
+    const result = ExperimentSchema.safeParse(item);
+    return result.success ? [result.data] : [];
+  });
+}
+
+function writeExperiments(experiments: Experiment[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(experiments));
+}
+
+// Inserts the experiment, or replaces the stored one with the same id.
+// Returns the updated list.
+export function saveExperiment(experiment: Experiment): Experiment[] {
+  const experiments = listExperiments();
+  const index = experiments.findIndex(e => e.id === experiment.id);
+  if (index >= 0) experiments[index] = experiment;
+  else experiments.push(experiment);
+  writeExperiments(experiments);
+  return experiments;
+}
+
+export function deleteExperiment(id: string): Experiment[] {
+  const experiments = listExperiments().filter(e => e.id !== id);
+  writeExperiments(experiments);
+  return experiments;
+}
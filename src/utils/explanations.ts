@@ -0,0 +1,181 @@
+import * as tf from '@tensorflow/tfjs';
+import { getModelInputShape, imageDataToTensor } from './cnn-model';
+
+// Heatmaps that answer "which pixels made the model pick this class?".
+// All of them are computed on the main-thread model for a single input image
+// and returned as [height * width] values in 0-1.
+
+export type ExplanationMethod = 'saliency' | 'smoothgrad' | 'gradcam';
+
+// SmoothGrad: noisy copies averaged, and the noise level relative to the
+// 0-1 pixel range
+const SMOOTHGRAD_SAMPLES = 32;
+const SMOOTHGRAD_NOISE = 0.15;
+
+// Runs model.layers[start..end) on x, in inference mode
+export function applyLayers(model: tf.LayersModel, x: tf.Tensor, start: number, end: number): tf.Tensor {
+  for (const layer of model.layers.slice(start, end)) {
+    x = layer.apply(x) as tf.Tensor;
+  }
+  return x;
+}
+
+// Runs model.layers[start..] on x and returns the class scores before the
+// final softmax. Gradients of the probability vanish once the model is very
+// sure, gradients of the score do not.
+export function classScores(model: tf.LayersModel, x: tf.Tensor, start = 0): tf.Tensor2D {
+  const layers = model.layers;
+  const last = layers[layers.length - 1];
+  x = applyLayers(model, x, start, layers.length - 1);
+  if (last.getClassName() === 'Dense') {
+    const [kernel, bias] = last.getWeights();
+    return tf.matMul(x as tf.Tensor2D, kernel as tf.Tensor2D).add(bias);
+  }
+  return last.apply(x) as tf.Tensor2D;
+}
+
+// Sum over the batch of one class's score, as a function tf.grad can differentiate
+function classScoreFn(model: tf.LayersModel, classIndex: number, start = 0) {
+  return (x: tf.Tensor) => classScores(model, x, start).gather([classIndex], 1).sum();
+}
+
+function normalize(map: tf.Tensor): Float32Array {
+  return tf.tidy(() => {
+    const max = map.max();
+    return map.div(tf.maximum(max, 1e-8)).dataSync() as Float32Array;
+  });
+}
+
+// Strongest absolute gradient over the colour channels of each pixel
+function pixelGradient(model: tf.LayersModel, input: tf.Tensor4D, classIndex: number) {
+  const grads = tf.grad(classScoreFn(model, classIndex))(input);
+  return grads.abs().mean(0).max(-1);
+}
+
+// Averages the gradients of many noisy copies, which removes most of the
+// speckle a single gradient has. The copies run as one batch.
+function smoothGrad(model: tf.LayersModel, input: tf.Tensor4D, classIndex: number) {
+  const noisy = input.tile([SMOOTHGRAD_SAMPLES, 1, 1, 1]).add(tf.randomNormal([SMOOTHGRAD_SAMPLES, ...input.shape.slice(1)], 0, SMOOTHGRAD_NOISE)) as tf.Tensor4D;
+  return pixelGradient(model, noisy, classIndex);
+}
+
+export function getLastConvLayerIndex(model: tf.LayersModel) {
+  for (let i = model.layers.length - 1; i >= 0; i--) {
+    if (model.layers[i].getClassName() === 'Conv2D') return i;
+  }
+  return -1;
+}
+
+// Grad-CAM: the last conv layer's feature maps, weighted by how much the
+// class score depends on each of them and upsampled to the input size.
+function gradCam(model: tf.LayersModel, input: tf.Tensor4D, classIndex: number) {
+  const convIndex = getLastConvLayerIndex(model);
+  if (convIndex < 0) throw new Error('Grad-CAM needs at least one Conv2D layer');
+
+  const features = applyLayers(model, input, 0, convIndex + 1);
+  const grads = tf.grad(classScoreFn(model, classIndex, convIndex + 1))(features);
+  const weights = grads.mean([1, 2], true);
+  const cam = tf.relu(features.mul(weights).sum(-1, true)) as tf.Tensor4D;
+  const [h, w] = getModelInputShape(model);
+  return tf.image.resizeBilinear(cam, [h, w]).squeeze();
+}
+
+const METHODS: Record<ExplanationMethod, (model: tf.LayersModel, input: tf.Tensor4D, classIndex: number) => tf.Tensor> = {
+  saliency: pixelGradient,
+  smoothgrad: smoothGrad,
+  gradcam: gradCam,
+};
+
+export function explainPrediction(
+  model: tf.LayersModel,
+  imageData: ImageData,
+  classIndex: number,
+  method: ExplanationMethod
+): Float32Array {
+  return tf.tidy(() => {
+    const input = imageDataToTensor(model, imageData);
+    return normalize(METHODS[method](model, input, classIndex));
+  });
+}
+
+export interface OcclusionOptions {
+  patchSize: number; // Side of the square patch in pixels
+  stride: number;    // Step between patch positions
+  fill: number;      // Grey level of the patch, 0 (black) to 1 (white)
+}
+
+export const DEFAULT_OCCLUSION: OcclusionOptions = { patchSize: 6, stride: 2, fill: 0.5 };
+
+// Start offsets along one axis; the last patch always touches the far edge
+function patchOffsets(size: number, patchSize: number, stride: number) {
+  const last = Math.max(0, size - patchSize);
+  const offsets: number[] = [];
+  for (let o = 0; o < last; o += stride) offsets.push(o);
+  offsets.push(last);
+  return offsets;
+}
+
+// Occlusion sensitivity: covers one patch at a time and measures how much
+// the class's probability drops. All occluded copies go through the model as
+// a single batch. Each pixel gets the average drop of the patches covering
+// it, in probability units (0.3 = 30 percentage points), so the values are
+// not rescaled; patches that raise the probability count as 0.
+export function occlusionSensitivity(
+  model: tf.LayersModel,
+  imageData: ImageData,
+  classIndex: number,
+  { patchSize, stride, fill }: OcclusionOptions
+): Float32Array {
+  const [h, w, c] = getModelInputShape(model);
+  const ys = patchOffsets(h, patchSize, stride);
+  const xs = patchOffsets(w, patchSize, stride);
+  const patches = ys.flatMap(y => xs.map(x => ({ y, x })));
+
+  const probs = tf.tidy(() => {
+    const input = imageDataToTensor(model, imageData);
+    const original = input.dataSync() as Float32Array;
+    const size = h * w * c;
+    const batch = new Float32Array(size * (patches.length + 1));
+    batch.set(original); // Unoccluded image first, as the baseline
+    patches.forEach(({ y, x }, p) => {
+      const offset = size * (p + 1);
+      batch.set(original, offset);
+      for (let py = y; py < Math.min(h, y + patchSize); py++) {
+        batch.fill(fill, offset + (py * w + x) * c, offset + (py * w + Math.min(w, x + patchSize)) * c);
+      }
+    });
+    const output = model.predict(tf.tensor4d(batch, [patches.length + 1, h, w, c])) as tf.Tensor2D;
+    return output.gather([classIndex], 1).dataSync() as Float32Array;
+  });
+
+  const total = new Float32Array(h * w);
+  const counts = new Float32Array(h * w);
+  patches.forEach(({ y, x }, p) => {
+    const drop = Math.max(0, probs[0] - probs[p + 1]);
+    for (let py = y; py < Math.min(h, y + patchSize); py++) {
+      for (let px = x; px < Math.min(w, x + patchSize); px++) {
+        total[py * w + px] += drop;
+        counts[py * w + px]++;
+      }
+    }
+  });
+  return total.map((v, i) => counts[i] > 0 ? v / counts[i] : 0);
+}
+
+// 0-1 values -> a transparent-to-red "hot" colour ramp, so the image
+// underneath stays visible where the heatmap is weak.
+export function heatmapToDataUrl(values: Float32Array, width: number, height: number): string {
+  const imageData = new ImageData(width, height);
+  for (let i = 0; i < width * height; i++) {
+    const v = Math.min(1, Math.max(0, values[i]));
+    imageData.data[i * 4] = 255;
+    imageData.data[i * 4 + 1] = Math.round(255 * Math.max(0, v * 2 - 1));
+    imageData.data[i * 4 + 2] = 0;
+    imageData.data[i * 4 + 3] = Math.round(255 * Math.min(1, v * 1.5));
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')?.putImageData(imageData, 0, 0);
+  return canvas.toDataURL();
+}
@@ -0,0 +1,118 @@
+import { FeatureMaps } from './cnn-model';
+
+// Colouring and statistics for a layer's feature maps, shared by every view
+// of them so a value always gets the same colour.
+
+export type ColorMapName = 'gray' | 'viridis' | 'diverging';
+export type Normalization = 'map' | 'layer';
+
+export const COLOR_MAPS: { id: ColorMapName; label: string }[] = [
+  { id: 'gray', label: '灰度 (Gray)' },
+  { id: 'viridis', label: '彩虹 (Viridis)' },
+  { id: 'diverging', label: '正负 (Diverging)' },
+];
+
+// Viridis sampled at 0, 0.25, 0.5, 0.75 and 1; interpolated in between
+const VIRIDIS: [number, number, number][] = [
+  [68, 1, 84], [59, 82, 139], [33, 145, 140], [94, 201, 98], [253, 231, 37],
+];
+
+function lerp(a: number, b: number, t: number) {
+  return Math.round(a + (b - a) * t);
+}
+
+// Colour of `v` on [min, max]. The diverging map is centred on 0: red for
+// negative, white for 0, blue for positive, as for the conv kernels.
+export function colorize(v: number, min: number, max: number, map: ColorMapName): [number, number, number] {
+  if (map === 'diverging') {
+    const scale = Math.max(Math.abs(min), Math.abs(max), 1e-6);
+    const t = Math.max(-1, Math.min(1, v / scale));
+    const [r, g, b] = t < 0 ? [239, 68, 68] : [59, 130, 246];
+    const a = Math.abs(t);
+    return [lerp(255, r, a), lerp(255, g, a), lerp(255, b, a)];
+  }
+  const t = Math.max(0, Math.min(1, (v - min) / Math.max(max - min, 1e-6)));
+  if (map === 'gray') {
+    const g = Math.round(t * 255);
+    return [g, g, g];
+  }
+  const pos = t * (VIRIDIS.length - 1);
+  const i = Math.min(Math.floor(pos), VIRIDIS.length - 2);
+  const [a, b] = [VIRIDIS[i], VIRIDIS[i + 1]];
+  return [lerp(a[0], b[0], pos - i), lerp(a[1], b[1], pos - i), lerp(a[2], b[2], pos - i)];
+}
+
+// Value at (y, x) of one channel
+export function featureValue({ data, shape }: FeatureMaps, channel: number, y: number, x: number) {
+  const [, w, c] = shape;
+  return data[(y * w + x) * c + channel];
+}
+
+export interface ChannelStats {
+  min: number;
+  max: number;
+  mean: number;
+  activeFraction: number; // Share of positions above 0
+}
+
+export function getChannelStats(maps: FeatureMaps, channel: number): ChannelStats {
+  const [h, w] = maps.shape;
+  let min = Infinity, max = -Infinity, sum = 0, active = 0;
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const v = featureValue(maps, channel, y, x);
+      min = Math.min(min, v);
+      max = Math.max(max, v);
+      sum += v;
+      if (v > 0) active++;
+    }
+  }
+  return { min, max, mean: sum / (h * w), activeFraction: active / (h * w) };
+}
+
+// Range the colours of `channel` are scaled to: its own, or the whole layer's
+// so that maps can be compared with each other
+export function getColorRange(stats: ChannelStats[], channel: number, normalization: Normalization): [number, number] {
+  if (normalization === 'map') return [stats[channel].min, stats[channel].max];
+  return [Math.min(...stats.map(s => s.min)), Math.max(...stats.map(s => s.max))];
+}
+
+// Counts of one channel's values in `bins` equal-width bins over [min, max]
+export function getHistogram(maps: FeatureMaps, channel: number, min: number, max: number, bins = 20): number[] {
+  const [h, w] = maps.shape;
+  const counts = new Array(bins).fill(0);
+  const width = Math.max(max - min, 1e-6) / bins;
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const bin = Math.floor((featureValue(maps, channel, y, x) - min) / width);
+      counts[Math.max(0, Math.min(bins - 1, bin))]++;
+    }
+  }
+  return counts;
+}
+
+export function drawFeatureMap(
+  canvas: HTMLCanvasElement,
+  maps: FeatureMaps,
+  channel: number,
+  [min, max]: [number, number],
+  colorMap: ColorMapName
+) {
+  const [h, w] = maps.shape;
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const image = ctx.createImageData(w, h);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const offset = (y * w + x) * 4;
+      const [r, g, b] = colorize(featureValue(maps, channel, y, x), min, max, colorMap);
+      image.data[offset] = r;
+      image.data[offset + 1] = g;
+      image.data[offset + 2] = b;
+      image.data[offset + 3] = 255;
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+}
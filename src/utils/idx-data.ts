@@ -0,0 +1,144 @@
+import { DATASETS, DatasetInfo, DatasetSourceId } from './dataset-source';
+import { InMemoryDataset } from './in-memory-dataset';
+
+// Loader for datasets published in the IDX format used by the original MNIST
+// files (optionally gzipped): Fashion-MNIST and EMNIST.
+
+export async function fetchBytes(url: string): Promise<Uint8Array> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load ${url}: HTTP ${response.status}`);
+  }
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  // Gzip magic number; servers that already decoded the file skip this.
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+  return bytes;
+}
+
+// Parses an unsigned-byte IDX file: 2 zero bytes, type 0x08, the number of
+// dimensions, then one big-endian int32 per dimension, then the data.
+export function parseIdx(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.getUint16(0) !== 0 || bytes[2] !== 0x08) {
+    throw new Error('Not an unsigned-byte IDX file');
+  }
+  const numDims = bytes[3];
+  const dims: number[] = [];
+  for (let i = 0; i < numDims; i++) dims.push(view.getUint32(4 + i * 4));
+  const offset = 4 + numDims * 4;
+  return { dims, data: bytes.subarray(offset) };
+}
+
+function toOneHot(labels: Uint8Array, numClasses: number, labelOffset: number) {
+  const oneHot = new Uint8Array(labels.length * numClasses);
+  labels.forEach((label, i) => {
+    const cls = label - labelOffset;
+    if (cls < 0 || cls >= numClasses) throw new Error(`Unexpected label ${label}`);
+    oneHot[i * numClasses + cls] = 1;
+  });
+  return oneHot;
+}
+
+interface IdxFiles {
+  trainImages: string;
+  trainLabels: string;
+  testImages: string;
+  testLabels: string;
+}
+
+interface IdxDatasetOptions {
+  info: DatasetInfo;
+  id: DatasetSourceId;
+  label: string;
+  baseUrl: string;
+  files: IdxFiles;
+  labelOffset: number; // Subtracted from the stored label (EMNIST letters start at 1)
+  transpose: boolean;  // EMNIST images are stored column-major
+}
+
+export class IdxDataset extends InMemoryDataset {
+  constructor(private readonly options: IdxDatasetOptions) {
+    super(options.info, options.id, options.label);
+  }
+
+  private async loadImages(file: string) {
+    const { dims, data } = parseIdx(await fetchBytes(this.options.baseUrl + file));
+    const [count, h, w] = dims;
+    const [expectedH, expectedW] = this.info.imageShape;
+    if (h !== expectedH || w !== expectedW) {
+      throw new Error(`${file}: expected ${expectedH}x${expectedW} images, got ${h}x${w}`);
+    }
+    if (!this.options.transpose) return data.slice(0, count * h * w);
+
+    const images = new Uint8Array(count * h * w);
+    for (let n = 0; n < count; n++) {
+      const base = n * h * w;
+      for (let y = 0; y < h; y++) {
+        for (let x = 0; x < w; x++) {
+          images[base + y * w + x] = data[base + x * h + y];
+        }
+      }
+    }
+    return images;
+  }
+
+  private async loadLabels(file: string) {
+    const { data } = parseIdx(await fetchBytes(this.options.baseUrl + file));
+    return toOneHot(data, this.numClasses, this.options.labelOffset);
+  }
+
+  async load() {
+    const { files } = this.options;
+    const [trainImages, trainLabels, testImages, testLabels] = await Promise.all([
+      this.loadImages(files.trainImages),
+      this.loadLabels(files.trainLabels),
+      this.loadImages(files.testImages),
+      this.loadLabels(files.testLabels),
+    ]);
+    this.setSplits(trainImages, trainLabels, testImages, testLabels);
+  }
+}
+
+// Served by GitHub with CORS enabled, so it can be fetched directly.
+export class FashionMnistData extends IdxDataset {
+  constructor() {
+    super({
+      info: DATASETS['fashion-mnist'],
+      id: 'remote',
+      label: '在线 Fashion-MNIST (GitHub)',
+      baseUrl: 'https://raw.githubusercontent.com/zalandoresearch/fashion-mnist/master/data/fashion/',
+      files: {
+        trainImages: 'train-images-idx3-ubyte.gz',
+        trainLabels: 'train-labels-idx1-ubyte.gz',
+        testImages: 't10k-images-idx3-ubyte.gz',
+        testLabels: 't10k-labels-idx1-ubyte.gz',
+      },
+      labelOffset: 0,
+      transpose: false,
+    });
+  }
+}
+
+// NIST only publishes EMNIST as one large zip without CORS headers, so the
+// letters split has to be extracted into public/datasets/emnist/ first.
+export class EmnistLettersData extends IdxDataset {
+  constructor() {
+    super({
+      info: DATASETS['emnist-letters'],
+      id: 'static',
+      label: 'EMNIST Letters (public/datasets/emnist)',
+      baseUrl: 'datasets/emnist/',
+      files: {
+        trainImages: 'emnist-letters-train-images-idx3-ubyte.gz',
+        trainLabels: 'emnist-letters-train-labels-idx1-ubyte.gz',
+        testImages: 'emnist-letters-test-images-idx3-ubyte.gz',
+        testLabels: 'emnist-letters-test-labels-idx1-ubyte.gz',
+      },
+      labelOffset: 1,
+      transpose: true,
+    });
+  }
+}
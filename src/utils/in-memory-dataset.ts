@@ -0,0 +1,150 @@
+/**
+ * @license
+ * Copyright 2018 Google LLC. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ * =============================================================================
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import {
+  DatasetInfo,
+  DatasetSource,
+  DatasetSourceId,
+  DatasetSplits,
+  getImageSize,
+} from './dataset-source';
+
+// Batching over train/test splits held in memory. Subclasses only have to
+// fill the splits in `load()`; the training worker builds one straight from
+// the splits it receives.
+export class InMemoryDataset implements DatasetSource {
+  trainImages: Float32Array | Uint8Array | null = null;
+  testImages: Float32Array | Uint8Array | null = null;
+  trainLabels: Uint8Array | null = null;
+  testLabels: Uint8Array | null = null;
+
+  trainIndices: Uint32Array | null = null;
+  testIndices: Uint32Array | null = null;
+
+  constructor(
+    readonly info: DatasetInfo,
+    readonly id: DatasetSourceId,
+    readonly label: string
+  ) {}
+
+  get numClasses() {
+    return this.info.classNames.length;
+  }
+
+  get numTrainElements() {
+    return this.trainLabels ? this.trainLabels.length / this.numClasses : 0;
+  }
+
+  get numTestElements() {
+    return this.testLabels ? this.testLabels.length / this.numClasses : 0;
+  }
+
+  // Datasets built from splits are already loaded.
+  async load() {}
+
+  protected setSplits(
+    trainImages: Float32Array | Uint8Array,
+    trainLabels: Uint8Array,
+    testImages: Float32Array | Uint8Array,
+    testLabels: Uint8Array
+  ) {
+    this.trainImages = trainImages;
+    this.trainLabels = trainLabels;
+    this.testImages = testImages;
+    this.testLabels = testLabels;
+    // Create shuffled indices into the train/test set for when we select a
+    // random batch for training / validation.
+    this.trainIndices = tf.util.createShuffledIndices(this.numTrainElements);
+    this.testIndices = tf.util.createShuffledIndices(this.numTestElements);
+  }
+
+  // The loaded splits, for handing the dataset to the training
+  // worker (typed arrays are structured-cloned by postMessage, so every
+  // source keeps its images as Uint8 pixels to keep that copy small).
+  getSplits(): DatasetSplits {
+    if (!this.trainImages || !this.trainLabels || !this.testImages || !this.testLabels) {
+      throw new Error("Data not loaded");
+    }
+    return {
+      info: this.info,
+      trainImages: this.trainImages,
+      trainLabels: this.trainLabels,
+      testImages: this.testImages,
+      testLabels: this.testLabels,
+    };
+  }
+
+  static fromSplits(splits: DatasetSplits, id: DatasetSourceId = 'remote', label = splits.info.name) {
+    const data = new InMemoryDataset(splits.info, id, label);
+    data.setSplits(splits.trainImages, splits.trainLabels, splits.testImages, splits.testLabels);
+    return data;
+  }
+
+  nextTrainBatch(batchSize: number) {
+    return this.nextBatch(
+        batchSize, [this.trainImages, this.trainLabels], () => {
+          this.trainIndices = tf.util.createShuffledIndices(this.numTrainElements);
+          return this.trainIndices;
+        });
+  }
+
+  nextTestBatch(batchSize: number) {
+    return this.nextBatch(batchSize, [this.testImages, this.testLabels], () => {
+      this.testIndices = tf.util.createShuffledIndices(this.numTestElements);
+      return this.testIndices;
+    });
+  }
+
+  nextBatch(
+    batchSize: number,
+    data: [Float32Array | Uint8Array | null, Uint8Array | null],
+    index: () => Uint32Array
+  ) {
+    const imageSize = getImageSize(this.info);
+    const numClasses = this.numClasses;
+    const batchImagesArray = new Float32Array(batchSize * imageSize);
+    const batchLabelsArray = new Uint8Array(batchSize * numClasses);
+
+    const indices = index();
+    const [images, labels] = data;
+
+    if (!images || !labels) {
+        throw new Error("Data not loaded");
+    }
+
+    const scale = images instanceof Uint8Array ? 1 / 255 : 1;
+
+    for (let i = 0; i < batchSize; i++) {
+      const idx = indices[i % indices.length];
+
+      const offset = i * imageSize;
+      for (let p = 0; p < imageSize; p++) {
+        batchImagesArray[offset + p] = images[idx * imageSize + p] * scale;
+      }
+
+      const label =
+          labels.subarray(idx * numClasses, idx * numClasses + numClasses);
+      batchLabelsArray.set(label, i * numClasses);
+    }
+
+    const xs = tf.tensor2d(batchImagesArray, [batchSize, imageSize]);
+    const labelsTensor = tf.tensor2d(batchLabelsArray, [batchSize, numClasses]);
+
+    return {xs, labels: labelsTensor};
+  }
+}
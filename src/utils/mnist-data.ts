@@ -15,31 +15,60 @@
  * =============================================================================
  */
 
-import * as tf from '@tensorflow/tfjs';
+import { DATASETS, DatasetSourceId } from './dataset-source';
+import { InMemoryDataset } from './in-memory-dataset';
+import bundledImagesUrl from '../assets/mnist_subset_images.png';
+import bundledLabelsUrl from '../assets/mnist_subset_labels.bin?url';
 
 const IMAGE_SIZE = 784;
 const NUM_CLASSES = 10;
-const NUM_DATASET_ELEMENTS = 65000;
 
 const TRAIN_TEST_RATIO = 5 / 6;
 
-const NUM_TRAIN_ELEMENTS = Math.floor(TRAIN_TEST_RATIO * NUM_DATASET_ELEMENTS);
-const NUM_TEST_ELEMENTS = NUM_DATASET_ELEMENTS - NUM_TRAIN_ELEMENTS;
+// A sprite of IMAGE_SIZE-wide rows (one image per row) plus one-hot labels.
+interface MnistSpriteOptions {
+  id: DatasetSourceId;
+  label: string;
+  imagesSpritePath: string;
+  labelsPath: string;
+  numElements: number;
+  trainTestRatio: number;
+}
 
-const MNIST_IMAGES_SPRITE_PATH =
-    'https://storage.googleapis.com/learnjs-data/model-builder/mnist_images.png';
-const MNIST_LABELS_PATH =
-    'https://storage.googleapis.com/learnjs-data/model-builder/mnist_labels_uint8';
+const REMOTE_MNIST: MnistSpriteOptions = {
+  id: 'remote',
+  label: '在线 MNIST (Google Storage)',
+  imagesSpritePath:
+      'https://storage.googleapis.com/learnjs-data/model-builder/mnist_images.png',
+  labelsPath:
+      'https://storage.googleapis.com/learnjs-data/model-builder/mnist_labels_uint8',
+  numElements: 65000,
+  trainTestRatio: TRAIN_TEST_RATIO,
+};
+
+// 3000 digits (300 per class) taken from the MIT-licensed `mnist` npm
+// package and stored in the same sprite format as the remote dataset.
+const BUNDLED_MNIST: MnistSpriteOptions = {
+  id: 'bundled',
+  label: '离线内置 MNIST 子集',
+  imagesSpritePath: bundledImagesUrl,
+  labelsPath: bundledLabelsUrl,
+  numElements: 3000,
+  trainTestRatio: 5 / 6,
+};
+
+export class MnistData extends InMemoryDataset {
+  constructor(private readonly options: MnistSpriteOptions = REMOTE_MNIST) {
+    super(DATASETS.mnist, options.id, options.label);
+  }
 
-export class MnistData {
-  datasetImages: Float32Array | null = null;
+  datasetImages: Uint8Array | null = null;
   datasetLabels: Uint8Array | null = null;
-  trainImages: Float32Array | null = null;
-  testImages: Float32Array | null = null;
-  trainLabels: Uint8Array | null = null;
-  testLabels: Uint8Array | null = null;
 
   async load() {
+    const { numElements, imagesSpritePath, labelsPath } = this.options;
+    const numTrainElements = Math.floor(this.options.trainTestRatio * numElements);
+
     // Make a request for the MNIST sprited image.
     const img = new Image();
     const canvas = document.createElement('canvas');
@@ -51,104 +80,66 @@ export class MnistData {
         img.width = img.naturalWidth;
         img.height = img.naturalHeight;
 
-        const datasetBytesBuffer =
-            new ArrayBuffer(NUM_DATASET_ELEMENTS * IMAGE_SIZE * 4);
+        // Raw 0-255 pixels: a quarter of the memory of floats, and what gets
+        // copied to the training worker
+        const datasetBytesBuffer = new ArrayBuffer(numElements * IMAGE_SIZE);
 
-        const chunkSize = 5000;
+        const chunkSize = Math.min(5000, numElements);
         canvas.width = img.width;
         canvas.height = chunkSize;
 
-        for (let i = 0; i < NUM_DATASET_ELEMENTS / chunkSize; i++) {
-          const datasetBytesView = new Float32Array(
-              datasetBytesBuffer, i * chunkSize * IMAGE_SIZE * 4,
-              chunkSize * IMAGE_SIZE);
+        for (let i = 0; i < Math.ceil(numElements / chunkSize); i++) {
+          const rows = Math.min(chunkSize, numElements - i * chunkSize);
+          const datasetBytesView = new Uint8Array(
+              datasetBytesBuffer, i * chunkSize * IMAGE_SIZE,
+              rows * IMAGE_SIZE);
           if (ctx) {
             ctx.drawImage(
-                img, 0, i * chunkSize, img.width, chunkSize, 0, 0, img.width,
-                chunkSize);
-            const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+                img, 0, i * chunkSize, img.width, rows, 0, 0, img.width,
+                rows);
+            const imageData = ctx.getImageData(0, 0, canvas.width, rows);
 
             for (let j = 0; j < imageData.data.length / 4; j++) {
               // All channels hold an equal value since the image is grayscale, so
               // just read the red channel.
-              datasetBytesView[j] = imageData.data[j * 4] / 255;
+              datasetBytesView[j] = imageData.data[j * 4];
             }
           }
         }
-        this.datasetImages = new Float32Array(datasetBytesBuffer);
+        this.datasetImages = new Uint8Array(datasetBytesBuffer);
         resolve();
       };
-      img.onerror = (err) => reject(err);
-      img.src = MNIST_IMAGES_SPRITE_PATH;
+      img.onerror = () => reject(new Error(`Failed to load ${imagesSpritePath}`));
+      img.src = imagesSpritePath;
     });
 
-    const labelsRequest = fetch(MNIST_LABELS_PATH);
+    const labelsRequest = fetch(labelsPath);
     const [_, labelsResponse] = await Promise.all([imgRequest, labelsRequest]);
+    if (!labelsResponse.ok) {
+      throw new Error(`Failed to load ${labelsPath}: HTTP ${labelsResponse.status}`);
+    }
 
     this.datasetLabels = new Uint8Array(await labelsResponse.arrayBuffer());
 
-    // Create shuffled indices into the train/test set for when we select a
-    // random batch for training / validation.
-    this.trainIndices = tf.util.createShuffledIndices(NUM_TRAIN_ELEMENTS);
-    this.testIndices = tf.util.createShuffledIndices(NUM_TEST_ELEMENTS);
-
     // Slice the the images and labels into train and test sets.
     if (this.datasetImages && this.datasetLabels) {
-        this.trainImages =
-            this.datasetImages.slice(0, IMAGE_SIZE * NUM_TRAIN_ELEMENTS);
-        this.testImages = this.datasetImages.slice(
-            IMAGE_SIZE * NUM_TRAIN_ELEMENTS);
-        this.trainLabels =
-            this.datasetLabels.slice(0, NUM_CLASSES * NUM_TRAIN_ELEMENTS);
-        this.testLabels =
-            this.datasetLabels.slice(NUM_CLASSES * NUM_TRAIN_ELEMENTS);
+        this.setSplits(
+            this.datasetImages.slice(0, IMAGE_SIZE * numTrainElements),
+            this.datasetLabels.slice(0, NUM_CLASSES * numTrainElements),
+            this.datasetImages.slice(IMAGE_SIZE * numTrainElements),
+            this.datasetLabels.slice(NUM_CLASSES * numTrainElements));
     }
-  }
-
-  trainIndices: Uint32Array | null = null;
-  testIndices: Uint32Array | null = null;
 
-  nextTrainBatch(batchSize: number) {
-    return this.nextBatch(
-        batchSize, [this.trainImages, this.trainLabels], () => {
-          this.trainIndices = tf.util.createShuffledIndices(NUM_TRAIN_ELEMENTS);
-          return this.trainIndices;
-        });
-  }
-
-  nextTestBatch(batchSize: number) {
-    return this.nextBatch(batchSize, [this.testImages, this.testLabels], () => {
-      this.testIndices = tf.util.createShuffledIndices(NUM_TEST_ELEMENTS);
-      return this.testIndices;
-    });
+    // The splits are independent copies; drop the combined buffers so the
+    // dataset is not held in memory twice.
+    this.datasetImages = null;
+    this.datasetLabels = null;
   }
+}
 
-  nextBatch(batchSize: number, data: [Float32Array | null, Uint8Array | null], index: () => Uint32Array) {
-    const batchImagesArray = new Float32Array(batchSize * IMAGE_SIZE);
-    const batchLabelsArray = new Uint8Array(batchSize * NUM_CLASSES);
-
-    const indices = index();
-    const [images, labels] = data;
-
-    if (!images || !labels) {
-        throw new Error("Data not loaded");
-    }
-
-    for (let i = 0; i < batchSize; i++) {
-      const idx = indices[i % indices.length];
-
-      const image =
-          images.slice(idx * IMAGE_SIZE, idx * IMAGE_SIZE + IMAGE_SIZE);
-      batchImagesArray.set(image, i * IMAGE_SIZE);
-
-      const label =
-          labels.slice(idx * NUM_CLASSES, idx * NUM_CLASSES + NUM_CLASSES);
-      batchLabelsArray.set(label, i * NUM_CLASSES);
-    }
-
-    const xs = tf.tensor2d(batchImagesArray, [batchSize, IMAGE_SIZE]);
-    const labelsTensor = tf.tensor2d(batchLabelsArray, [batchSize, NUM_CLASSES]);
-
-    return {xs, labels: labelsTensor};
+// Compact subset bundled with the app, for classrooms without network access.
+export class LocalMnistData extends MnistData {
+  constructor() {
+    super(BUNDLED_MNIST);
   }
 }
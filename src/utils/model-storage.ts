@@ -0,0 +1,121 @@
+import * as tf from '@tensorflow/tfjs';
+import { z } from 'zod';
+import { ArchitectureSpec, ArchitectureSpecSchema } from './cnn-architecture';
+import { TrainingLogEntry, compileModel } from './cnn-model';
+import { DATASET_IDS, DatasetId } from './dataset-source';
+
+// Models are saved with tf.io under this IndexedDB prefix. The architecture
+// spec and training history travel with the weights as user-defined metadata,
+// so a restored model brings its structure panel and training chart back too.
+const IDB_PREFIX = 'indexeddb://cnn-visualizer/';
+const METADATA_APP = 'cnn-visualizer';
+
+export const TrainingLogEntrySchema = z.object({
+  epoch: z.number(),
+  loss: z.number(),
+  acc: z.number(),
+  valLoss: z.number().optional(),
+  valAcc: z.number().optional(),
+  partial: z.boolean().optional(),
+});
+
+const ModelMetadataSchema = z.object({
+  app: z.literal(METADATA_APP),
+  architecture: ArchitectureSpecSchema,
+  logs: z.array(TrainingLogEntrySchema),
+  // Missing in models saved before dataset selection existed (always MNIST)
+  datasetId: z.enum(DATASET_IDS).default('mnist'),
+});
+
+type ModelMetadata = z.infer<typeof ModelMetadataSchema>;
+
+export interface SavedModelInfo {
+  name: string;
+  dateSaved: Date;
+  sizeBytes: number;
+}
+
+export interface LoadedModel {
+  model: tf.LayersModel;
+  architecture: ArchitectureSpec;
+  logs: TrainingLogEntry[];
+  datasetId: DatasetId;
+}
+
+export function isValidModelName(name: string) {
+  return /^[\w\u4e00-\u9fa5-]{1,40}$/.test(name);
+}
+
+function attachMetadata(
+  model: tf.LayersModel,
+  architecture: ArchitectureSpec,
+  logs: TrainingLogEntry[],
+  datasetId: DatasetId
+) {
+  const metadata: ModelMetadata = { app: METADATA_APP, architecture, logs, datasetId };
+  model.setUserDefinedMetadata(metadata);
+}
+
+function readMetadata(model: tf.LayersModel): LoadedModel {
+  const result = ModelMetadataSchema.safeParse(model.getUserDefinedMetadata());
+  if (!result.success) {
+    model.dispose();
+    throw new Error('This model was not exported by CNN Visualizer (missing architecture metadata)');
+  }
+  compileModel(model);
+  return { model, ...result.data };
+}
+
+export async function saveModel(
+  model: tf.LayersModel,
+  name: string,
+  architecture: ArchitectureSpec,
+  logs: TrainingLogEntry[],
+  datasetId: DatasetId
+) {
+  if (!isValidModelName(name)) throw new Error(`Invalid model name "${name}"`);
+  attachMetadata(model, architecture, logs, datasetId);
+  return model.save(IDB_PREFIX + name);
+}
+
+export async function loadSavedModel(name: string): Promise<LoadedModel> {
+  const model = await tf.loadLayersModel(IDB_PREFIX + name);
+  return readMetadata(model);
+}
+
+export async function listSavedModels(): Promise<SavedModelInfo[]> {
+  const models = await tf.io.listModels();
+  return Object.entries(models)
+    .filter(([url]) => url.startsWith(IDB_PREFIX))
+    .map(([url, info]) => ({
+      name: url.slice(IDB_PREFIX.length),
+      dateSaved: new Date(info.dateSaved),
+      sizeBytes: (info.modelTopologyBytes ?? 0) + (info.weightDataBytes ?? 0),
+    }))
+    .sort((a, b) => b.dateSaved.getTime() - a.dateSaved.getTime());
+}
+
+export async function deleteSavedModel(name: string) {
+  await tf.io.removeModel(IDB_PREFIX + name);
+}
+
+// Triggers a browser download of `<name>.json` plus `<name>.weights.bin`.
+export async function exportModel(
+  model: tf.LayersModel,
+  name: string,
+  architecture: ArchitectureSpec,
+  logs: TrainingLogEntry[],
+  datasetId: DatasetId
+) {
+  attachMetadata(model, architecture, logs, datasetId);
+  return model.save(`downloads://${name}`);
+}
+
+// Expects the model.json file and every weight file it references.
+export async function importModel(files: File[]): Promise<LoadedModel> {
+  const jsonFile = files.find(f => f.name.endsWith('.json'));
+  if (!jsonFile) throw new Error('Please select the model .json file together with its weight files');
+  const weightFiles = files.filter(f => f !== jsonFile);
+  const model = await tf.loadLayersModel(tf.io.browserFiles([jsonFile, ...weightFiles]));
+  return readMetadata(model);
+}
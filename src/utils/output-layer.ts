@@ -0,0 +1,88 @@
+import * as tf from '@tensorflow/tfjs';
+import { imageDataToTensor } from './cnn-model';
+import { applyLayers } from './explanations';
+
+// The numbers behind the final Dense + softmax layer for one image: the
+// flattened features it receives, its weights, and the class scores (logits)
+// before softmax. Every logit is bias + Σ feature × weight, so it can be
+// split into the contribution of each feature.
+
+export interface FeatureContribution {
+  index: number; // Position in the flattened feature vector
+  value: number;
+  weight: number;
+  product: number;
+}
+
+export interface ClassBreakdown {
+  logit: number;
+  bias: number;
+  top: FeatureContribution[]; // Largest |product| first
+  rest: number;               // Sum of all the other products
+  restCount: number;
+}
+
+export interface OutputLayerBreakdown {
+  features: Float32Array;
+  // Spatial layer the features were flattened from, for labelling them
+  source: { layerName: string; shape: [number, number, number] } | null;
+  classes: ClassBreakdown[];
+}
+
+// Layers that keep every feature at its index, so can sit between Flatten and the output
+const INDEX_PRESERVING_LAYERS = new Set(['Dropout', 'Activation', 'ReLU', 'LeakyReLU', 'ELU', 'Softmax']);
+
+// Null when the model does not end in a Dense layer
+export function getOutputLayerBreakdown(
+  model: tf.LayersModel,
+  imageData: ImageData,
+  topK = 5
+): OutputLayerBreakdown | null {
+  const layers = model.layers;
+  const last = layers[layers.length - 1];
+  if (last.getClassName() !== 'Dense') return null;
+
+  const [features, kernel, bias] = tf.tidy(() => {
+    const x = applyLayers(model, imageDataToTensor(model, imageData), 0, layers.length - 1);
+    const [w, b] = last.getWeights();
+    return [x.dataSync() as Float32Array, w.dataSync() as Float32Array, b.dataSync() as Float32Array];
+  });
+  const numClasses = bias.length;
+
+  // The features are positions in a spatial layer only when the output layer
+  // reads a Flatten of it; e.g. with flatten → dense → output they are not
+  let source: OutputLayerBreakdown['source'] = null;
+  let i = layers.length - 2;
+  while (i >= 0 && INDEX_PRESERVING_LAYERS.has(layers[i].getClassName())) i--;
+  if (i > 0 && layers[i].getClassName() === 'Flatten') {
+    const shape = layers[i - 1].outputShape as number[];
+    if (shape.length === 4) source = { layerName: layers[i - 1].name, shape: [shape[1], shape[2], shape[3]] };
+  }
+
+  const classes = Array.from({ length: numClasses }, (_, k) => {
+    const contributions: FeatureContribution[] = [];
+    let logit = bias[k];
+    for (let i = 0; i < features.length; i++) {
+      const weight = kernel[i * numClasses + k];
+      const product = features[i] * weight;
+      logit += product;
+      contributions.push({ index: i, value: features[i], weight, product });
+    }
+    contributions.sort((a, b) => Math.abs(b.product) - Math.abs(a.product));
+    const top = contributions.slice(0, topK);
+    const rest = contributions.slice(topK).reduce((s, c) => s + c.product, 0);
+    return { logit, bias: bias[k], top, rest, restCount: contributions.length - top.length };
+  });
+
+  return { features, source, classes };
+}
+
+// Softmax of logits / temperature. Subtracting the largest logit first keeps
+// exp() from overflowing and does not change the result.
+export function softmax(logits: number[], temperature = 1): number[] {
+  const scaled = logits.map(z => z / temperature);
+  const max = Math.max(...scaled);
+  const exps = scaled.map(z => Math.exp(z - max));
+  const sum = exps.reduce((s, e) => s + e, 0);
+  return exps.map(e => e / sum);
+}
@@ -0,0 +1,63 @@
+import * as tf from '@tensorflow/tfjs';
+import { getModelInputShape } from './cnn-model';
+import { samePadding } from './cnn-architecture';
+
+// The receptive field of a feature-map pixel: the part of the input image it
+// depends on. The geometry comes from the model's own layer configs (kernel
+// or pool size, strides, padding), so it follows any architecture edit.
+
+export interface ReceptiveField {
+  rows: [number, number]; // First and last input row, inclusive, clipped to the image
+  cols: [number, number];
+  size: [number, number];  // Full extent before clipping; 'same' padding can reach past the border
+}
+
+interface Window {
+  size: [number, number];
+  strides: [number, number];
+  padding: string;
+}
+
+// Sliding window of a conv or pooling layer; null for layers that keep every
+// position where it is (BatchNorm, Dropout, activations)
+function getWindow(layer: tf.layers.Layer): Window | null {
+  const config = layer.getConfig();
+  const size = (config.kernelSize ?? config.poolSize) as number | number[] | undefined;
+  if (size === undefined) return null;
+  const pair = (v: unknown): [number, number] => Array.isArray(v) ? [v[0], v[1]] : [v as number, v as number];
+  return {
+    size: pair(size),
+    strides: pair(config.strides ?? size),
+    padding: (config.padding as string | undefined) ?? 'valid',
+  };
+}
+
+export function getReceptiveField(model: tf.LayersModel, layerName: string, y: number, x: number): ReceptiveField {
+  const index = model.layers.findIndex(l => l.name === layerName);
+  if (index < 0) throw new Error(`Layer "${layerName}" not found`);
+
+  // Walk back from the layer to the input, widening [first, last] at every window
+  let rows: [number, number] = [y, y];
+  let cols: [number, number] = [x, x];
+  for (let i = index; i >= 0; i--) {
+    const layer = model.layers[i];
+    const shape = (layer.input as tf.SymbolicTensor).shape;
+    if (shape.length !== 4) throw new Error(`Layer "${layer.name}" is not spatial`);
+    const window = getWindow(layer);
+    if (!window) continue;
+    const [kh, kw] = window.size;
+    const [sh, sw] = window.strides;
+    const same = window.padding === 'same';
+    const top = same ? samePadding(shape[1]!, kh, sh)[0] : 0;
+    const left = same ? samePadding(shape[2]!, kw, sw)[0] : 0;
+    rows = [rows[0] * sh - top, rows[1] * sh - top + kh - 1];
+    cols = [cols[0] * sw - left, cols[1] * sw - left + kw - 1];
+  }
+
+  const [h, w] = getModelInputShape(model);
+  return {
+    rows: [Math.max(0, rows[0]), Math.min(h - 1, rows[1])],
+    cols: [Math.max(0, cols[0]), Math.min(w - 1, cols[1])],
+    size: [rows[1] - rows[0] + 1, cols[1] - cols[0] + 1],
+  };
+}
@@ -0,0 +1,137 @@
+import { z } from 'zod';
+import { CustomSample } from './custom-dataset';
+import { DATASETS, DATASET_IDS, DatasetId, getImageSize } from './dataset-source';
+
+// Custom samples live in their own IndexedDB database (tf.io owns the one
+// used by model-storage). Each dataset keeps its own collection, since the
+// labels and image shape differ.
+const DB_NAME = 'cnn-visualizer-samples';
+const DB_VERSION = 1;
+const STORE = 'samples';
+const EXPORT_APP = 'cnn-visualizer-samples';
+
+interface StoredSample extends Omit<CustomSample, 'id'> {
+  id?: number;
+  datasetId: DatasetId;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('datasetId', 'datasetId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function transaction(mode: IDBTransactionMode) {
+  const db = await openDb();
+  return db.transaction(STORE, mode).objectStore(STORE);
+}
+
+function checkSample(datasetId: DatasetId, label: number, pixels: Uint8Array) {
+  const info = DATASETS[datasetId];
+  if (!Number.isInteger(label) || label < 0 || label >= info.classNames.length) {
+    throw new Error(`Label ${label} is out of range for ${datasetId}`);
+  }
+  if (pixels.length !== getImageSize(info)) {
+    throw new Error(`Expected ${getImageSize(info)} pixels for ${datasetId}, got ${pixels.length}`);
+  }
+}
+
+export async function listSamples(datasetId: DatasetId): Promise<CustomSample[]> {
+  const store = await transaction('readonly');
+  const stored = await promisify(store.index('datasetId').getAll(datasetId)) as Required<StoredSample>[];
+  return stored.map(({ id, label, pixels, createdAt }) => ({ id, label, pixels, createdAt }));
+}
+
+export async function addSample(datasetId: DatasetId, label: number, pixels: Uint8Array): Promise<CustomSample> {
+  checkSample(datasetId, label, pixels);
+  const sample: StoredSample = { datasetId, label, pixels, createdAt: Date.now() };
+  const store = await transaction('readwrite');
+  const id = await promisify(store.add(sample)) as number;
+  return { id, label, pixels, createdAt: sample.createdAt };
+}
+
+export async function deleteSample(id: number) {
+  const store = await transaction('readwrite');
+  await promisify(store.delete(id));
+}
+
+// Export file: JSON with base64 pixels, so a class can share its samples.
+const ExportFileSchema = z.object({
+  app: z.literal(EXPORT_APP),
+  datasetId: z.enum(DATASET_IDS),
+  samples: z.array(z.object({
+    label: z.number().int(),
+    pixels: z.string(),
+    createdAt: z.number(),
+  })),
+});
+
+type ExportFile = z.infer<typeof ExportFileSchema>;
+
+function toBase64(bytes: Uint8Array) {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+}
+
+function fromBase64(text: string) {
+  return Uint8Array.from(atob(text), ch => ch.charCodeAt(0));
+}
+
+export function exportSamples(datasetId: DatasetId, samples: CustomSample[]) {
+  const file: ExportFile = {
+    app: EXPORT_APP,
+    datasetId,
+    samples: samples.map(({ label, pixels, createdAt }) => ({ label, pixels: toBase64(pixels), createdAt })),
+  };
+  const url = URL.createObjectURL(new Blob([JSON.stringify(file)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${datasetId}-samples.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Adds the samples from an exported file to the dataset's collection and
+// returns how many were imported.
+export async function importSamples(datasetId: DatasetId, file: File): Promise<number> {
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`${file.name} is not a JSON file`);
+  }
+  const result = ExportFileSchema.safeParse(json);
+  if (!result.success) throw new Error(`${file.name} is not an exported sample file`);
+  if (result.data.datasetId !== datasetId) {
+    throw new Error(`${file.name} contains ${result.data.datasetId} samples, not ${datasetId}`);
+  }
+
+  const samples = result.data.samples.map(s => ({ ...s, pixels: fromBase64(s.pixels) }));
+  samples.forEach(s => checkSample(datasetId, s.label, s.pixels));
+
+  const store = await transaction('readwrite');
+  await Promise.all(samples.map(s => promisify(store.add({ ...s, datasetId } satisfies StoredSample))));
+  return samples.length;
+}
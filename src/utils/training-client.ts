@@ -0,0 +1,119 @@
+import * as tf from '@tensorflow/tfjs';
+import { ArchitectureSpec } from './cnn-architecture';
+import { TrainingConfig } from './cnn-model';
+import { DataMix } from './custom-dataset';
+import { DatasetSource } from './dataset-source';
+import {
+  TrainingWorkerRequest,
+  TrainingWorkerResponse,
+  applyWeights,
+  serializeWeights,
+  weightTransferables,
+} from './training-protocol';
+
+export interface TrainingCallbacks {
+  onEpochEnd: (epoch: number, logs: tf.Logs, partial: boolean) => void;
+  onBatchEnd?: (batch: number, logs: tf.Logs) => void;
+}
+
+interface ActiveRun {
+  model: tf.LayersModel;
+  callbacks: TrainingCallbacks;
+  resolve: (result: { stopped: boolean }) => void;
+  reject: (err: Error) => void;
+}
+
+// Main-thread side of the training worker. `train` has the same shape as
+// `trainModel`, but model.fit runs off the main thread and the main-thread
+// model only receives the weights at the end of every epoch, so predict,
+// getActivation and getConvKernels keep working on it.
+export class TrainingWorkerClient {
+  private worker: Worker;
+  private run: ActiveRun | null = null;
+  private modelIds = new WeakMap<tf.LayersModel, number>();
+  private nextModelId = 1;
+
+  constructor() {
+    this.worker = new Worker(new URL('./training.worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (e: MessageEvent<TrainingWorkerResponse>) => this.handleMessage(e.data);
+    this.worker.onerror = (e) => this.finish(new Error(e.message || 'Training worker crashed'));
+  }
+
+  setData(data: DatasetSource) {
+    this.post({ type: 'init', data: data.getSplits() });
+  }
+
+  setCustomData(data: DatasetSource | null) {
+    this.post({ type: 'customData', data: data && data.getSplits() });
+  }
+
+  train(
+    model: tf.LayersModel,
+    architecture: ArchitectureSpec,
+    config: TrainingConfig,
+    mix: DataMix,
+    callbacks: TrainingCallbacks
+  ): Promise<{ stopped: boolean }> {
+    if (this.run) return Promise.reject(new Error('A training run is already in progress'));
+
+    let modelId = this.modelIds.get(model);
+    if (modelId === undefined) {
+      modelId = this.nextModelId++;
+      this.modelIds.set(model, modelId);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.run = { model, callbacks, resolve, reject };
+      const weights = serializeWeights(model);
+      this.post({ type: 'train', modelId, architecture, weights, config, mix }, weightTransferables(weights));
+    });
+  }
+
+  pause() {
+    this.post({ type: 'pause' });
+  }
+
+  resume() {
+    this.post({ type: 'resume' });
+  }
+
+  stop() {
+    this.post({ type: 'stop' });
+  }
+
+  terminate() {
+    this.worker.terminate();
+    this.finish(new Error('Training worker terminated'));
+  }
+
+  private post(message: TrainingWorkerRequest, transfer: Transferable[] = []) {
+    this.worker.postMessage(message, transfer);
+  }
+
+  private handleMessage(message: TrainingWorkerResponse) {
+    const run = this.run;
+    if (!run) return;
+    switch (message.type) {
+      case 'batchEnd':
+        run.callbacks.onBatchEnd?.(message.batch, message.logs);
+        break;
+      case 'epochEnd':
+        applyWeights(run.model, message.weights);
+        run.callbacks.onEpochEnd(message.epoch, message.logs, message.partial);
+        break;
+      case 'done':
+        this.run = null;
+        run.resolve({ stopped: message.stopped });
+        break;
+      case 'error':
+        this.finish(new Error(message.message));
+        break;
+    }
+  }
+
+  private finish(err: Error) {
+    const run = this.run;
+    this.run = null;
+    run?.reject(err);
+  }
+}
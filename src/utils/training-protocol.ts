@@ -0,0 +1,58 @@
+import * as tf from '@tensorflow/tfjs';
+import { ArchitectureSpec } from './cnn-architecture';
+import { TrainingConfig } from './cnn-model';
+import { DataMix } from './custom-dataset';
+import { DatasetSplits } from './dataset-source';
+
+// Message protocol between the main thread and training.worker.ts. The
+// worker owns data batching and model.fit; the main thread keeps its own
+// copy of the model and receives weight snapshots after every epoch.
+
+export interface SerializedWeight {
+  shape: number[];
+  data: Float32Array;
+}
+
+export type TrainingWorkerRequest =
+  | { type: 'init'; data: DatasetSplits }
+  // The student's own samples; null when there are none
+  | { type: 'customData'; data: DatasetSplits | null }
+  | {
+      type: 'train';
+      // Identifies the main-thread model; the worker keeps its own model
+      // (and optimizer state) while the id stays the same.
+      modelId: number;
+      architecture: ArchitectureSpec;
+      weights: SerializedWeight[];
+      config: TrainingConfig;
+      mix: DataMix;
+    }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'stop' };
+
+export type TrainingWorkerResponse =
+  | { type: 'batchEnd'; batch: number; logs: tf.Logs }
+  | { type: 'epochEnd'; epoch: number; logs: tf.Logs; partial: boolean; weights: SerializedWeight[] }
+  | { type: 'done'; stopped: boolean }
+  | { type: 'error'; message: string };
+
+export function serializeWeights(model: tf.LayersModel): SerializedWeight[] {
+  return model.getWeights().map(w => ({
+    shape: w.shape,
+    // Copy: dataSync may return the backend's own storage, which must not
+    // be detached when the buffer is transferred.
+    data: new Float32Array(w.dataSync()),
+  }));
+}
+
+export function applyWeights(model: tf.LayersModel, weights: SerializedWeight[]) {
+  const tensors = weights.map(w => tf.tensor(w.data, w.shape));
+  model.setWeights(tensors);
+  tf.dispose(tensors);
+}
+
+// Weight buffers can be moved instead of copied between threads.
+export function weightTransferables(weights: SerializedWeight[]): ArrayBuffer[] {
+  return weights.map(w => w.data.buffer as ArrayBuffer);
+}
@@ -0,0 +1,82 @@
+/// <reference lib="webworker" />
+import * as tf from '@tensorflow/tfjs';
+import { createModel, trainModel, TrainingController } from './cnn-model';
+import { InMemoryDataset } from './in-memory-dataset';
+import { selectTrainingData } from './custom-dataset';
+import {
+  TrainingWorkerRequest,
+  TrainingWorkerResponse,
+  applyWeights,
+  serializeWeights,
+  weightTransferables,
+} from './training-protocol';
+
+declare const self: DedicatedWorkerGlobalScope;
+
+let data: InMemoryDataset | null = null;
+let customData: InMemoryDataset | null = null;
+let model: tf.LayersModel | null = null;
+let modelId: number | null = null;
+let controller: TrainingController | null = null;
+
+function post(message: TrainingWorkerResponse, transfer: Transferable[] = []) {
+  self.postMessage(message, transfer);
+}
+
+async function train(request: Extract<TrainingWorkerRequest, { type: 'train' }>) {
+  if (!data) throw new Error("Data not loaded");
+
+  // Rebuild only when the main thread switched to a different model, so that
+  // "train more" keeps the optimizer state from the previous run.
+  if (!model || modelId !== request.modelId) {
+    model?.dispose();
+    model = createModel(request.architecture);
+    modelId = request.modelId;
+  }
+  applyWeights(model, request.weights);
+
+  const current = model;
+  controller = new TrainingController();
+  await trainModel(
+    current,
+    selectTrainingData(data, customData, request.mix),
+    request.config,
+    (epoch, logs, partial) => {
+      const weights = serializeWeights(current);
+      post({ type: 'epochEnd', epoch, logs, partial, weights }, weightTransferables(weights));
+    },
+    (batch, logs) => post({ type: 'batchEnd', batch, logs }),
+    controller
+  );
+  post({ type: 'done', stopped: controller.isStopped });
+  controller = null;
+}
+
+self.onmessage = async (e: MessageEvent<TrainingWorkerRequest>) => {
+  const request = e.data;
+  switch (request.type) {
+    case 'init':
+      data = InMemoryDataset.fromSplits(request.data);
+      break;
+    case 'customData':
+      customData = request.data && InMemoryDataset.fromSplits(request.data, 'custom');
+      break;
+    case 'train':
+      try {
+        await train(request);
+      } catch (err) {
+        controller = null;
+        post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+      }
+      break;
+    case 'pause':
+      controller?.pause();
+      break;
+    case 'resume':
+      controller?.resume();
+      break;
+    case 'stop':
+      controller?.stop();
+      break;
+  }
+};